@@ -1,9 +1,14 @@
 import {
-	Index,
+	type Accessor,
+	For,
 	type JSX,
 	type Setter,
+	type Signal,
+	batch,
+	createComputed,
 	createMemo,
 	createSignal,
+	mergeProps,
 	onCleanup,
 	onMount,
 } from "solid-js";
@@ -12,14 +17,29 @@ import {
 	type Control,
 	type ExposedControlProps,
 	type FieldApi,
+	type IsEqual,
+	type UnregisterPolicy,
 	type Validate,
+	type ValidationMethod,
 	createControl,
 	createField,
 	createFieldComponent,
-	registerField,
-	unregisterField,
+	createTransform,
 } from "./";
 
+/** Key identifying an array item across reorders. */
+export type ItemKey = string | number;
+
+let nextItemKey = 0;
+
+/**
+ * Generates a unique key for an array item.
+ * @returns A new item key.
+ */
+export function createItemKey(): string {
+	return `item-${nextItemKey++}`;
+}
+
 /**
  * Props for an ArrayField component.
  * @template TParent - The type of the parent object containing the array field.
@@ -35,6 +55,20 @@ export type ArrayFieldProps<
 	control: Control<TParent>; // Control object managing the parent form.
 	name: TKey; // Name of the array field in the parent object.
 	validate?: Validate<TItem[]>; // Validation function for the array items.
+	debounce?: number; // Delay in milliseconds before validating on change.
+	isEqual?: IsEqual<TItem[]>; // Comparison with the initial value for isPristine/isDirty.
+	deps?: string[]; // Paths of sibling values the validation depends on.
+	validationMethod?: ValidationMethod; // When to validate. Inherited from the parent if not set.
+	revalidateMethod?: ValidationMethod; // When to validate again while the field has an error. Inherited from the parent if not set.
+	shouldUnregister?: UnregisterPolicy; // On unmount, true removes the array from the parent and "initial" restores the initial value. Inherited from the parent if not set.
+	keepState?: boolean; // Keeps errors and touch state while unmounted so they come back on mount. Inherited from the parent if not set.
+	disabled?: boolean; // Disables the array field and its items. Disabled fields skip validation and are not counted as invalid.
+	readOnly?: boolean; // Makes the array field and its items read-only.
+	keyBy?: (item: TItem, index: number) => ItemKey; // Returns a unique key for each item. Keys are generated and kept in sync by the array methods if not set.
+	minItems?: number; // Minimum number of items. Methods refuse to remove past it and validation fails below it.
+	maxItems?: number; // Maximum number of items. Methods refuse to add past it and validation fails above it.
+	minItemsMessage?: string; // Error message when there are fewer items than minItems.
+	maxItemsMessage?: string; // Error message when there are more items than maxItems.
 };
 
 /**
@@ -53,6 +87,9 @@ export type ArrayFieldApi<
 		control: Control<TItem[]>; // Control object managing the array field.
 		name: TKey; // Name of the array field in the parent object.
 		Fields: FieldsComponent<TItem>; // Component function to render array field items.
+		keys: Accessor<ItemKey[]>; // Accessor for the key of each item in array order.
+		canAppend: Accessor<boolean>; // Accessor indicating whether an item can be added without going past maxItems.
+		canRemove: Accessor<boolean>; // Accessor indicating whether an item can be removed without going past minItems.
 	};
 
 /**
@@ -61,6 +98,11 @@ export type ArrayFieldApi<
  */
 export type FieldsComponent<TItem> = (props: {
 	validate?: Validate<TItem>; // Validation function for each array item.
+	parse?: (raw: string) => TItem; // Converts the raw string of an input to each item. Throw to report a parse failure.
+	format?: (value: TItem) => string; // Converts each item to the raw string of an input.
+	debounce?: number; // Delay in milliseconds before validating each item on change.
+	validationMethod?: ValidationMethod; // When to validate each item. Inherited from the array field if not set.
+	revalidateMethod?: ValidationMethod; // When to validate each item again while it has an error. Inherited from the array field if not set.
 	children: (field: FieldsApi<TItem>) => JSX.Element; // Children function receiving FieldsApi.
 }) => JSX.Element;
 
@@ -69,7 +111,8 @@ export type FieldsComponent<TItem> = (props: {
  * @template TItem - The type of each item in the array.
  */
 export type FieldsApi<TItem> = Omit<FieldApi<TItem[], number>, "name"> & {
-	index: number; // Index of the array item.
+	index: Accessor<number>; // Accessor for the current index of the array item.
+	key: ItemKey; // Key of the array item. Item state stays with the key when the array is reordered.
 };
 
 /**
@@ -88,53 +131,138 @@ export function createArrayField<
 >(
 	props: ArrayFieldProps<TParent, TKey, TItem>,
 ): ArrayFieldApi<TParent, TKey, TItem> {
-	const field = createField(props); // Create a field using createField function.
-	const methods = createArrayMethods(field.setValue); // Create array manipulation methods using createArrayMethods.
+	const minItemsMessage = () =>
+		props.minItemsMessage ?? `Must have at least ${props.minItems} items`;
+	const maxItemsMessage = () =>
+		props.maxItemsMessage ?? `Must have at most ${props.maxItems} items`;
+
+	// Validates the length limits before the validate prop.
+	const validate: Validate<TItem[]> = (value, context) => {
+		const length = value?.length ?? 0;
+		if (props.minItems !== undefined && length < props.minItems) {
+			return minItemsMessage();
+		}
+		if (props.maxItems !== undefined && length > props.maxItems) {
+			return maxItemsMessage();
+		}
+		return props.validate?.(value, context) ?? "";
+	};
+
+	const field = createField(mergeProps(props, { validate })); // Create a field using createField function.
+
+	const canAppend = createMemo(
+		() =>
+			(field.value()?.length ?? 0) <
+			(props.maxItems ?? Number.POSITIVE_INFINITY),
+	);
+	const canRemove = createMemo(
+		() => (field.value()?.length ?? 0) > (props.minItems ?? 0),
+	);
+
+	// Keys set by the array methods. Reconciled by position when the array is set directly.
+	const [storedKeys, setStoredKeys] = createSignal<ItemKey[]>([]);
+	let lastStoredKeys: ItemKey[] | undefined;
+	// Keys of each array shown, so undo and redo get back the keys of the array they restore.
+	const keysByArray = new WeakMap<TItem[], ItemKey[]>();
+	const keys = createMemo<ItemKey[]>((prev) => {
+		const items = field.value() ?? [];
+		if (props.keyBy) return items.map(props.keyBy);
+		const stored = storedKeys();
+		const source =
+			stored === lastStoredKeys ? keysByArray.get(items) ?? prev : stored;
+		lastStoredKeys = stored;
+		const next = items.map((_, i) => source[i] ?? createItemKey());
+		keysByArray.set(items, next);
+		return next;
+	}, []);
+	// Create array manipulation methods using createArrayMethods.
+	const methods = createArrayMethods(field.setValue, {
+		keys: [keys, setStoredKeys],
+		minItems: () => props.minItems,
+		maxItems: () => props.maxItems,
+		// Reports the refusal as a manual error. The next validation checks the real length and clears it.
+		onLimit: (limit) =>
+			field.control.setManualError(
+				limit === "minItems" ? minItemsMessage() : maxItemsMessage(),
+			),
+		transaction: field.control.transaction,
+	});
+
+	// Item controls by key. The fields map of the array control follows the array order.
+	const [itemControls, setItemControls] = createSignal(
+		new Map<ItemKey, Control<TItem>>(),
+	);
+	createComputed(() => {
+		const controls = itemControls();
+		const fields = new Map<number, Control<TItem>>();
+		keys().forEach((key, index) => {
+			const control = controls.get(key);
+			if (control) fields.set(index, control);
+		});
+		field.control.setFields(fields);
+	});
 
 	// Component function to render array field items.
 	const Fields: FieldsComponent<TItem> = (props: {
 		validate?: Validate<TItem>; // Validation function for each array item.
+		parse?: (raw: string) => TItem; // Converts the raw string of an input to each item. Throw to report a parse failure.
+		format?: (value: TItem) => string; // Converts each item to the raw string of an input.
+		debounce?: number; // Delay in milliseconds before validating each item on change.
+		validationMethod?: ValidationMethod; // When to validate each item. Inherited from the array field if not set.
+		revalidateMethod?: ValidationMethod; // When to validate each item again while it has an error. Inherited from the array field if not set.
 		children: (field: FieldsApi<TItem>) => JSX.Element; // Children function receiving FieldsApi.
 	}) => {
 		return (
-			<Index each={field.value()}>
-				{(item, index) => {
-					const value = createMemo(() => field.value()[index] as TItem); // Memoized value of the array item.
+			<For each={keys()}>
+				{(key, index) => {
+					const value = createMemo(() => field.value()[index()] as TItem); // Memoized value of the array item.
 					//@ts-expect-error
 					const setValue: Setter<TItem> = (val: TItem) =>
 						field.setValue((prev: TItem[]) => {
 							const array = [...prev];
 							array.splice(
-								index,
+								index(),
 								1,
-								typeof val === "function" ? val(prev[index]) : val,
+								typeof val === "function" ? val(prev[index()]) : val,
 							);
 							return array;
 						}); // Setter function to update the array item.
 
+					const transform = createTransform<TItem>(props);
+
 					const control: Control<TItem> = createControl({
 						value,
 						setValue,
-						validate: props.validate,
+						validate: transform.validate(props.validate),
+						debounce: props.debounce,
+						parent: field.control,
+						pathKey: index,
+						validationMethod: () => props.validationMethod,
+						revalidateMethod: () => props.revalidateMethod,
 					}); // Control object for managing the array item.
 
-					// Register field on mount and unregister on cleanup.
-					onMount(() => registerField(field.control, index, control));
-					onCleanup(() => unregisterField(field.control, index));
-					const [touchCount, setTouchCount] = createSignal(0);
-					const isTouched = createMemo(() => touchCount() > 0);
+					// Register item by key on mount and unregister on cleanup.
+					onMount(() =>
+						setItemControls((prev) => new Map(prev).set(key, control)),
+					);
+					onCleanup(() =>
+						setItemControls((prev) => {
+							const map = new Map(prev);
+							map.delete(key);
+							return map;
+						}),
+					);
 
 					return props.children({
 						control,
 						...control,
+						...transform.bind(control),
 						Field: createFieldComponent(control),
 						index,
-						touchCount,
-						isTouched,
-						setTouchCount,
+						key,
 					}); // Render children with FieldsApi.
 				}}
-			</Index>
+			</For>
 		);
 	};
 
@@ -143,6 +271,9 @@ export function createArrayField<
 		...field,
 		...methods,
 		Fields,
+		keys,
+		canAppend,
+		canRemove,
 	};
 }
 
@@ -169,76 +300,215 @@ export function ArrayField<
 
 /**
  * Methods to manipulate an array of items.
+ * Methods return false and leave the array unchanged if the result would go past minItems/maxItems.
  * @template TItem - The type of each item in the array.
  */
 export type ArrayMethods<TItem> = {
-	append(item: TItem): void; // Appends an item to the end of the array.
-	prepend(item: TItem): void; // Prepends an item to the beginning of the array.
-	insert(index: number, item: TItem): void; // Inserts an item at a specific index in the array.
-	replace(index: number, item: TItem): void; // Replaces an item at a specific index in the array.
-	swap(indexA: number, indexB: number): void; // Swaps two items at specified indices in the array.
-	remove(index: number): void; // Removes an item at a specific index from the array.
+	append(item: TItem): boolean; // Appends an item to the end of the array.
+	prepend(item: TItem): boolean; // Prepends an item to the beginning of the array.
+	insert(index: number, item: TItem): boolean; // Inserts an item at a specific index in the array.
+	replace(index: number, item: TItem): boolean; // Replaces an item at a specific index in the array.
+	replaceAll(items: TItem[]): boolean; // Replaces all items of the array.
+	update(index: number, partial: Partial<TItem>): boolean; // Merges partial into the object item at a specific index, keeping its key.
+	swap(indexA: number, indexB: number): boolean; // Swaps two items at specified indices in the array.
+	move(from: number, to: number): boolean; // Moves an item from one index to another.
+	remove(index: number): boolean; // Removes an item at a specific index from the array.
+	removeMany(
+		indices: number[] | ((item: TItem, index: number) => boolean),
+	): boolean; // Removes items at the given indices or matching the predicate.
+	batch(fn: () => void): void; // Runs several methods and sets the array once.
+};
+
+/** Options for createArrayMethods. */
+export type ArrayMethodsOptions = {
+	keys?: Signal<ItemKey[]>; // Signal of item keys kept in sync with the array.
+	minItems?: Accessor<number | undefined>; // Minimum number of items allowed.
+	maxItems?: Accessor<number | undefined>; // Maximum number of items allowed.
+	onLimit?: (limit: "minItems" | "maxItems") => void; // Called when a method is refused because of a limit.
+	transaction?: <R>(fn: () => R) => R; // Runs each change as one step of the form history. Defaults to batch.
 };
 
+/**
+ * Item of an array with its key.
+ * @template TItem - The type of each item in the array.
+ */
+type ArrayEntry<TItem> = { item: TItem; key: ItemKey };
+
 /**
  * Creates methods to manipulate an array of items.
  * @template TItem - The type of each item in the array.
  * @param setValue - Setter function to update the array.
+ * @param options - Optional keys and length limits.
  * @returns ArrayMethods object representing array manipulation methods.
  */
 export function createArrayMethods<TItem>(
 	setValue: Setter<TItem[]>,
+	options: ArrayMethodsOptions = {},
 ): ArrayMethods<TItem> {
+	const { keys, minItems, maxItems, onLimit, transaction = batch } = options;
+
+	// Entries edited by the current batch.
+	let draft: ArrayEntry<TItem>[] | undefined;
+	// Limits refused while setting the array, reported once it is set.
+	let refused: ("minItems" | "maxItems")[] = [];
+
+	// Checks the limits and returns the limit the change would go past.
+	function exceededLimit(prev: number, next: number) {
+		if (next > prev && next > (maxItems?.() ?? Number.POSITIVE_INFINITY)) {
+			return "maxItems";
+		}
+		if (next < prev && next < (minItems?.() ?? 0)) return "minItems";
+	}
+
+	// Sets the array to the entries returned by fn, keeping the keys in sync.
+	function commit(fn: (entries: ArrayEntry<TItem>[]) => ArrayEntry<TItem>[]) {
+		const prevKeys = keys?.[0]() ?? [];
+		let next: ArrayEntry<TItem>[] | undefined;
+		transaction(() => {
+			setValue((p) => {
+				const entries = (p ?? []).map((item, i) => ({
+					item,
+					key: prevKeys[i] ?? createItemKey(),
+				}));
+				const result = fn(entries);
+				// Refused edits return the entries as they are, and leave the array untouched.
+				if (result === entries) return p;
+				next = result;
+				return result.map((entry) => entry.item);
+			});
+			if (next) keys?.[1](next.map((entry) => entry.key));
+		});
+		const limits = refused;
+		refused = [];
+		for (const limit of limits) onLimit?.(limit);
+	}
+
+	// Applies fn to the items and their keys together, unless it goes past a limit.
+	function edit(
+		fn: (entries: ArrayEntry<TItem>[]) => ArrayEntry<TItem>[],
+	): boolean {
+		let applied = true;
+		const apply = (entries: ArrayEntry<TItem>[]) => {
+			const next = fn(entries);
+			const limit = exceededLimit(entries.length, next.length);
+			if (!limit) return next;
+			applied = false;
+			refused.push(limit);
+			return entries;
+		};
+		if (draft) {
+			draft = apply(draft);
+		} else {
+			commit(apply);
+		}
+		return applied;
+	}
+
+	const entry = (item: TItem): ArrayEntry<TItem> => ({
+		item,
+		key: createItemKey(),
+	});
+
 	function append(item: TItem) {
-		setValue((p) => (p ? [...p, item] : [item])); // Append item to the end of the array.
+		return edit((p) => [...p, entry(item)]); // Append item to the end of the array.
 	}
 
 	function prepend(item: TItem) {
-		setValue((p) => (p ? [item, ...p] : [item])); // Prepend item to the beginning of the array.
+		return edit((p) => [entry(item), ...p]); // Prepend item to the beginning of the array.
 	}
 
 	function insert(index: number, item: TItem) {
-		setValue((p) => {
-			const array = p ? [...p] : [];
-			array.splice(index, 0, item); // Insert item at specified index in the array.
+		return edit((p) => {
+			const array = [...p];
+			array.splice(index, 0, entry(item)); // Insert item at specified index in the array.
 			return array;
 		});
 	}
 
 	function replace(index: number, item: TItem) {
-		setValue((p) => {
-			const array = p ? [...p] : [];
-			array.splice(index, 1, item); // Replace item at specified index in the array.
+		return edit((p) => {
+			const array = [...p];
+			array.splice(index, 1, entry(item)); // Replace item at specified index in the array.
 			return array;
 		});
 	}
 
+	function replaceAll(items: TItem[]) {
+		return edit(() => items.map(entry)); // Replace all items with new keys.
+	}
+
+	function update(index: number, partial: Partial<TItem>) {
+		return edit((p) =>
+			p.map((e, i) =>
+				i === index ? { key: e.key, item: { ...e.item, ...partial } } : e,
+			),
+		); // Merge partial into the item, keeping its key.
+	}
+
 	function remove(index: number) {
-		setValue((p) => {
-			const array = p ? [...p] : [];
+		return edit((p) => {
+			const array = [...p];
 			array.splice(index, 1); // Remove item at specified index from the array.
 			return array;
 		});
 	}
 
+	function removeMany(
+		indices: number[] | ((item: TItem, index: number) => boolean),
+	) {
+		const shouldRemove =
+			typeof indices === "function"
+				? indices
+				: (_: TItem, index: number) => indices.includes(index);
+		return edit((p) => p.filter((e, i) => !shouldRemove(e.item, i))); // Remove all matching items.
+	}
+
 	function swap(indexA: number, indexB: number) {
-		setValue((p) => {
-			const array = p ? [...p] : [];
-			const a = array[indexA] as TItem;
-			const b = array[indexB] as TItem;
+		return edit((p) => {
+			const a = p[indexA];
+			const b = p[indexB];
+			if (!a || !b) return p; // Ignore indices outside the array.
+			const array = [...p];
 			array[indexA] = b;
 			array[indexB] = a; // Swap items at specified indices in the array.
 			return array;
 		});
 	}
 
+	function move(from: number, to: number) {
+		return edit((p) => {
+			const array = [...p];
+			const [moved] = array.splice(from, 1);
+			if (moved) array.splice(to, 0, moved); // Move item to the target index.
+			return array;
+		});
+	}
+
+	function batchMethods(fn: () => void) {
+		if (draft) return fn();
+		commit((entries) => {
+			draft = entries;
+			try {
+				fn();
+				return draft;
+			} finally {
+				draft = undefined;
+			}
+		});
+	}
+
 	// Return ArrayMethods object.
 	return {
 		append,
 		prepend,
 		insert,
 		replace,
+		replaceAll,
+		update,
 		remove,
+		removeMany,
 		swap,
+		move,
+		batch: batchMethods,
 	};
 }
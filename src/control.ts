@@ -5,8 +5,25 @@ import {
 	createEffect,
 	createMemo,
 	createSignal,
+	createUniqueId,
 	on,
+	onCleanup,
+	sharedConfig,
+	untrack,
 } from "solid-js";
+import { type IsEqual, deepEqual, isPlainObject } from "./equal";
+import {
+	type PathInput,
+	findClosestField,
+	findField,
+	getPathValue,
+} from "./path";
+import {
+	type NativeValidation,
+	getNativeIssues,
+	isValidatableElement,
+} from "./native";
+import { type Schema, applySchemaIssues, toSchemaValidator } from "./schema";
 
 // export type Fields<T> = T extends Array<infer TValue>
 //   ? Array<Control<TValue> | undefined>
@@ -29,12 +46,125 @@ export type Ref = HTMLElement;
 export type ValidationMethod =
 	| "onChange"
 	| "onChangeAfterSubmit"
-	// | "onChangeAfterBlur"
-	// | "onBlur"
-	// | "onBlurAfterSubmit"
+	| "onChangeAfterBlur"
+	| "onBlur"
+	| "onBlurAfterSubmit"
 	| "onSubmit";
 
-export type Validate<T> = (value: T) => string | Promise<string>;
+/**
+ * Context passed to a validation function.
+ * @template T - The type of value being validated.
+ */
+export type ValidateContext<T> = {
+	/** Aborted when a newer validation of the control starts or the control is disposed. */
+	signal: AbortSignal;
+
+	/** Value being validated. */
+	value: T;
+
+	/** Incremented on every validation of the control. */
+	version: number;
+
+	/** Value of the parent control. Undefined for the root. */
+	parent: unknown;
+
+	/** Value of the root control (the form). */
+	root: unknown;
+};
+
+/** Severity of a validation issue. Warnings are shown but never make a control invalid. */
+export type IssueSeverity = "error" | "warning";
+
+/** Issue returned by a validation function. */
+export type ValidationIssue = {
+	/** Optional code identifying the rule that failed. */
+	code?: string;
+
+	/** Message to show. */
+	message: string;
+
+	/** Severity of the issue. Defaults to "error". */
+	severity?: IssueSeverity;
+};
+
+/** Result of a validation function. An error message ("" if valid), an issue or a list of issues. */
+export type ValidationResult = string | ValidationIssue | ValidationIssue[];
+
+export type Validate<T> = (
+	value: T,
+	context: ValidateContext<T>,
+) => ValidationResult | Promise<ValidationResult>;
+
+/**
+ * Normalizes a validation result to a list of issues.
+ * @param result - Result of a validation function.
+ * @returns List of issues. Empty if valid.
+ */
+export function toIssues(
+	result: ValidationResult | undefined,
+): ValidationIssue[] {
+	if (!result) return [];
+	if (typeof result === "string") return [{ message: result }];
+	return (Array.isArray(result) ? result : [result]).filter(
+		(issue) => issue.message,
+	);
+}
+
+/**
+ * Checks if an issue is an error and not a warning.
+ * @param issue - Issue to check.
+ * @returns True if the issue has no severity or "error" severity.
+ */
+export function isErrorIssue(issue: ValidationIssue): boolean {
+	return issue.severity !== "warning";
+}
+
+/** Options for setError. */
+export type SetErrorOptions = {
+	/** Keep the error through validations until the value changes. Otherwise the next validation clears it. */
+	persistUntilChange?: boolean;
+};
+
+/** Options for focusError. */
+export type FocusErrorOptions = {
+	/** Scroll animation. Defaults to the browser's focus scrolling. */
+	behavior?: ScrollBehavior;
+
+	/** Vertical alignment when scrolling with behavior. Defaults to "center". */
+	block?: ScrollLogicalPosition;
+
+	/** Pixels kept above the element when scrolling, e.g. the height of a sticky header. */
+	offset?: number;
+
+	/** Focus without scrolling. */
+	preventScroll?: boolean;
+};
+
+/** What happens to the value of a field when it unmounts: kept, removed from the parent value, or set back to its initial value. */
+export type UnregisterPolicy = boolean | "initial";
+
+/** Errors and touch state of an unmounted field, restored when it mounts again. */
+export type ControlState = {
+	issues: ValidationIssue[];
+	manualError: string;
+	touchCount: number;
+	isValidated: boolean;
+};
+
+/** Options for reset and resetField. */
+export type ResetOptions = {
+	/** Keep errors and validation state. */
+	keepErrors?: boolean;
+
+	/** Keep blur and touch state. */
+	keepTouched?: boolean;
+
+	/** Keep the current value of dirty fields instead of resetting them. */
+	keepDirtyValues?: boolean;
+
+	/** Keep the submit count of the form. Only used by the form's reset. */
+	keepSubmitCount?: boolean;
+};
 
 /**
  * Props for controlling and validating a form input or component.
@@ -50,6 +180,54 @@ export type ControlProps<T> = {
 
 	/** Optional function to validate the value of the controlled component. */
 	validate?: Validate<T>;
+
+	/** Optional paths of sibling values (relative to the parent value) this control's validation depends on. The control validates again when one of them changes. */
+	deps?: string[];
+
+	/** Optional function comparing the value to the initial value for isPristine/isDirty. Defaults to deepEqual. */
+	isEqual?: IsEqual<T>;
+
+	/** Optional delay in milliseconds to wait for changes to settle before validating on change. */
+	debounce?: number;
+
+	/** Optional schema validating the whole value. Issues are sent to the nested control matching their path. */
+	schema?: Schema<T>;
+
+	/** Optional parent control. Blur and change validation also revalidates the ancestors. */
+	parent?: Control<FieldTypes>;
+
+	/** Optional accessor for the key of the control in the parent value, e.g. the name of a field or the index of an array item. */
+	pathKey?: Accessor<PropertyKey | undefined>;
+
+	/** Optional accessor for when to validate. Inherited from the parent if not set. Defaults to "onSubmit". */
+	validationMethod?: Accessor<ValidationMethod | undefined>;
+
+	/** Optional accessor for when to validate again while the control has an error. Inherited from the parent if not set. Defaults to validationMethod. */
+	revalidateMethod?: Accessor<ValidationMethod | undefined>;
+
+	/** Optional accessor indicating whether the form has been submitted. Inherited from the parent if not set. */
+	isSubmitted?: Accessor<boolean>;
+
+	/** Optional accessor enabling validation with the native constraints (required, pattern, min...) of the ref element, with optional messages. Inherited from the parent if not set. */
+	nativeValidation?: Accessor<NativeValidation | undefined>;
+
+	/** Optional accessor for disabling the control and its children. Disabled controls skip validation and are not counted as invalid. */
+	disabled?: Accessor<boolean | undefined>;
+
+	/** Optional accessor for making the control and its children read-only. */
+	readOnly?: Accessor<boolean | undefined>;
+
+	/** Optional accessor indicating whether the form is submitting. Inherited from the parent if not set. */
+	isSubmitting?: Accessor<boolean>;
+
+	/** Optional accessor for what happens to the value when the field unmounts. Inherited from the parent if not set. Defaults to false (kept). */
+	shouldUnregister?: Accessor<UnregisterPolicy | undefined>;
+
+	/** Optional accessor for keeping the errors and touch state of the field while unmounted, so they come back when it mounts again. Inherited from the parent if not set. */
+	keepState?: Accessor<boolean | undefined>;
+
+	/** Optional function running several changes as one step of the form history. Inherited from the parent if not set. Defaults to batch. */
+	transaction?: <R>(fn: () => R) => R;
 };
 
 /**
@@ -73,12 +251,52 @@ export type Control<T> = {
 	/** Setter function to update the value of the controlled component. */
 	setValue: Setter<T>;
 
-	/** Initial value of the controlled component. */
-	initialValue: T;
+	/** Accessor for the initial value of the controlled component. Changes when reset with a new initial value. */
+	initialValue: Accessor<T>;
 
-	/** Accessor for getting the error state of the controlled component. */
+	/** Resets the value to nextInitialValue (defaults to initialValue) and clears errors, validation and blur state. nextInitialValue becomes the new initial value. */
+	reset: (nextInitialValue?: T, options?: ResetOptions) => void;
+
+	/** Resets a nested field by path. Throws if the field is not registered. */
+	resetField: (path: PathInput, options?: ResetOptions) => void;
+
+	/** Resets state to a new initial value without setting the value. Used by the reset of an ancestor. */
+	resetState: (initialValue: T, options: ResetOptions) => void;
+
+	/** Accessor for getting the error state of the controlled component. Message of the first error. */
 	error: Accessor<string>;
 
+	/** Accessor for all issues (errors and warnings) of the controlled component. */
+	issues: Accessor<ValidationIssue[]>;
+
+	/** Accessor for the error issues of the controlled component. */
+	errors: Accessor<ValidationIssue[]>;
+
+	/** Accessor for the warning issues of the controlled component. Warnings never make the control invalid. */
+	warnings: Accessor<ValidationIssue[]>;
+
+	/** Accessor indicating whether the controlled component or any of its children has warnings. */
+	hasWarnings: Accessor<boolean>;
+
+	/** Setter for the error sent to this control by an ancestor's schema. */
+	setSchemaError: Setter<string>;
+
+	/** Sets an error on the nested field at a path ("" for this control), e.g. an error returned by the server. Shown without validation. Unmounted fields pass it to the closest mounted ancestor. */
+	setError: (
+		path: PathInput,
+		message: string,
+		options?: SetErrorOptions,
+	) => void;
+
+	/** Clears the errors of the nested fields at the paths and their children. Clears all errors if no paths are given. */
+	clearErrors: (paths?: PathInput[]) => void;
+
+	/** Sets an error on this control only. Used by setError. */
+	setManualError: (message: string, options?: SetErrorOptions) => void;
+
+	/** Clears the errors of this control only. Used by clearErrors. */
+	clearOwnErrors: () => void;
+
 	/** Accessor indicating whether the controlled component has been edited (dirty). */
 	isDirty: Accessor<boolean>;
 
@@ -88,7 +306,55 @@ export type Control<T> = {
 	/** Asynchronous function to trigger validation of the controlled component. */
 	validate: () => Promise<boolean>;
 
-	/** Accessor indicating whether the controlled component is currently being validated. */
+	/** Asynchronous function to validate only this control and not its children. */
+	validateOwn: () => Promise<boolean>;
+
+	/** Parent control if this control is a field. */
+	parent?: Control<FieldTypes>;
+
+	/** Accessor for the key of the control in the parent value. Undefined for the root. */
+	pathKey: Accessor<PropertyKey | undefined>;
+
+	/** Accessor for when this control validates. */
+	validationMethod: Accessor<ValidationMethod>;
+
+	/** Accessor for when this control validates again while it has an error. */
+	revalidateMethod: Accessor<ValidationMethod | undefined>;
+
+	/** Accessor indicating whether the form has been submitted. */
+	isSubmitted: Accessor<boolean>;
+
+	/** Accessor for whether native constraints of the ref element are validated, and their messages. The error is also set as custom validity of the element. */
+	nativeValidation: Accessor<NativeValidation>;
+
+	/** Runs fn and records its changes as one step of the form history (one undo). */
+	transaction: <R>(fn: () => R) => R;
+
+	/** Accessor for the number of times the controlled component lost focus. */
+	touchCount: Accessor<number>;
+
+	/** Setter for the number of times the controlled component lost focus. */
+	setTouchCount: Setter<number>;
+
+	/** Accessor indicating whether the controlled component or any of its children has lost focus at least once. */
+	isTouched: Accessor<boolean>;
+
+	/** Returns the paths of the touched fields ("" for this control). */
+	touchedFields: () => string[];
+
+	/** Marks this control and all its children as touched. */
+	markAllTouched: () => void;
+
+	/** Function to call when the controlled component loses focus. Marks it touched and validates this control and its ancestors depending on their validationMethod. */
+	onBlur: () => void;
+
+	/** Function to call when something other than the value changed that should validate like a change, e.g. a parse error. */
+	notifyChange: () => void;
+
+	/** Function called by a child when it loses focus. Validates this control without its children depending on validationMethod. */
+	onChildBlur: () => void;
+
+	/** Accessor indicating whether the controlled component has validation in flight that has not been superseded by a newer one. */
 	isValidating: Accessor<boolean>;
 
 	/** Accessor indicating whether the controlled component has been validated for its current value. Changes to false when value changes until its validated again. */
@@ -103,8 +369,41 @@ export type Control<T> = {
 	/** Reference to the controlled component element. */
 	ref: Setter<Ref | undefined>;
 
-	/** Function to focus on the first error within the controlled component. */
-	focusError: () => boolean;
+	/** Accessor for the element set with ref. */
+	element: Accessor<Ref | undefined>;
+
+	/** Generated id for the controlled component element, stable between server and client. */
+	id: string;
+
+	/** Id of the element rendering the error, referenced by aria-describedby and aria-errormessage. */
+	errorId: string;
+
+	/** Function to focus the first error within the controlled component in document order. Controls without a ref use the closest ancestor ref. */
+	focusError: (options?: FocusErrorOptions) => boolean;
+
+	/** Accessor indicating whether the control is disabled by its props or an ancestor, or because the form is submitting. */
+	isDisabled: Accessor<boolean>;
+
+	/** Accessor indicating whether the control is disabled by its props or an ancestor. Such controls skip validation and are not counted as invalid. */
+	isExcluded: Accessor<boolean>;
+
+	/** Accessor indicating whether the control or an ancestor is read-only. */
+	isReadOnly: Accessor<boolean>;
+
+	/** Accessor indicating whether the form is submitting. */
+	isSubmitting: Accessor<boolean>;
+
+	/** Accessor for what happens to the value when the field unmounts. */
+	shouldUnregister: Accessor<UnregisterPolicy>;
+
+	/** Accessor indicating whether errors and touch state are kept while the field is unmounted. */
+	keepState: Accessor<boolean>;
+
+	/** Returns the errors and touch state to restore when the field mounts again. */
+	saveState: () => ControlState;
+
+	/** Restores errors and touch state saved by saveState. */
+	restoreState: (state: ControlState) => void;
 };
 
 type HiddenControlProps =
@@ -112,25 +411,98 @@ type HiddenControlProps =
 	| "fieldArray"
 	| "fields"
 	| "focusError"
-	| "getField";
+	| "getField"
+	| "setSchemaError"
+	| "setManualError"
+	| "clearOwnErrors"
+	| "validateOwn"
+	| "onChildBlur"
+	| "notifyChange"
+	| "resetState"
+	| "saveState"
+	| "isExcluded"
+	| "restoreState"
+	| "parent"
+	| "pathKey";
 export const hiddenControlProps: HiddenControlProps[] = [
 	"setFields",
 	"fieldArray",
 	"fields",
 	"focusError",
 	"getField",
+	"setSchemaError",
+	"setManualError",
+	"clearOwnErrors",
+	"validateOwn",
+	"onChildBlur",
+	"notifyChange",
+	"resetState",
+	"saveState",
+	"isExcluded",
+	"restoreState",
+	"parent",
+	"pathKey",
 ];
 
 export type ExposedControlProps<T> = Omit<Control<T>, HiddenControlProps>;
 
+// Ids of controls created outside a render.
+let controlCount = 0;
+
 export function createControl<T>(props: ControlProps<T>): Control<T> {
 	const { value, setValue } = props;
-	const initialValue = value();
-
-	const [error, setError] = createSignal("");
+	const [initialValue, setInitialValue] = createSignal(value());
+
+	const [ownIssues, setOwnIssues] = createSignal<ValidationIssue[]>([]);
+	const [schemaError, setSchemaError] = createSignal("");
+	const [manualError, _setManualError] = createSignal("");
+	let persistManualError = false;
+	const issues = createMemo(() => [
+		...toIssues(manualError()),
+		...ownIssues(),
+		...toIssues(schemaError()),
+	]);
+	const errors = createMemo(() => issues().filter(isErrorIssue));
+	const warnings = createMemo(() =>
+		issues().filter((issue) => !isErrorIssue(issue)),
+	);
+	const error = () => errors()[0]?.message ?? "";
 	const [_isValidating, setIsValidating] = createSignal(false);
-	const [isValidated, setIsValidated] = createSignal(false);
+	const [isSelfValidated, setIsSelfValidated] = createSignal(false);
+	const [touchCount, setTouchCount] = createSignal(0);
 	const [getRef, ref] = createSignal<Ref>();
+	// createUniqueId keeps ids stable while rendering and hydrating, but throws on the server outside a render.
+	const id = sharedConfig.context
+		? `sxf-${createUniqueId()}`
+		: `sxf-c${++controlCount}`;
+
+	const validationMethod = (): ValidationMethod =>
+		props.validationMethod?.() ??
+		props.parent?.validationMethod() ??
+		"onSubmit";
+	const revalidateMethod = (): ValidationMethod | undefined =>
+		props.revalidateMethod?.() ?? props.parent?.revalidateMethod();
+	const isSubmitted = (): boolean =>
+		props.isSubmitted?.() ?? props.parent?.isSubmitted() ?? false;
+
+	const nativeValidation = (): NativeValidation =>
+		props.nativeValidation?.() ?? props.parent?.nativeValidation() ?? false;
+
+	const isExcluded = (): boolean =>
+		Boolean(props.disabled?.()) || (props.parent?.isExcluded() ?? false);
+	const isSubmitting = (): boolean =>
+		props.isSubmitting?.() ?? props.parent?.isSubmitting() ?? false;
+	const isDisabled = () => isExcluded() || isSubmitting();
+	const isReadOnly = (): boolean =>
+		Boolean(props.readOnly?.()) || (props.parent?.isReadOnly() ?? false);
+
+	const shouldUnregister = (): UnregisterPolicy =>
+		props.shouldUnregister?.() ?? props.parent?.shouldUnregister() ?? false;
+	const keepState = (): boolean =>
+		props.keepState?.() ?? props.parent?.keepState() ?? false;
+
+	const transaction =
+		props.transaction ?? props.parent?.transaction ?? ((fn) => batch(fn));
 
 	//   const [fields, setFields] = createSignal<Fields<T>>(
 	//     (Array.isArray(initialValue) ? [] : {}) as Fields<T>
@@ -153,70 +525,369 @@ export function createControl<T>(props: ControlProps<T>): Control<T> {
 		return _isValidating() || fieldArray().some((f) => f.isValidating());
 	});
 
-	createEffect(on(value, () => setIsValidated(false)));
+	// Disabled controls count as validated so they do not hold back their ancestors.
+	const isValidated = createMemo(
+		() =>
+			isExcluded() ||
+			(isSelfValidated() && fieldArray().every((f) => f.isValidated())),
+	);
+
+	createEffect(
+		on(value, () => {
+			setIsSelfValidated(false);
+			if (persistManualError) _setManualError("");
+		}),
+	);
+
+	let version = 0;
+	let controller: AbortController | undefined;
+	let pending: Promise<boolean> = Promise.resolve(true);
+	let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+	// Set once validation has completed. Dependencies only trigger validation after that.
+	let hasValidated = false;
+	onCleanup(() => {
+		controller?.abort();
+		clearTimeout(debounceTimer);
+	});
 
-	const validateSelf = async () => {
-		const v = value();
+	// Reads the native constraints of the element, then restores the current error as its custom validity.
+	const validateNative = () =>
+		untrack((): ValidationIssue[] => {
+			const native = nativeValidation();
+			const elem = getRef();
+			if (!native || !isValidatableElement(elem)) return [];
+			const issues = getNativeIssues(elem, native === true ? {} : native);
+			elem.setCustomValidity(error());
+			return issues;
+		});
+
+	// Reflects the error on the element so :invalid and native reporting follow the control.
+	createEffect(() => {
+		const elem = getRef();
+		if (nativeValidation() && isValidatableElement(elem))
+			elem.setCustomValidity(error());
+	});
+
+	const validateSelf = async (context: ValidateContext<T>) => {
+		const nativeIssues = validateNative();
 		try {
-			const err = (await props.validate?.(v)) ?? "";
+			return [
+				...nativeIssues,
+				...toIssues(await props.validate?.(context.value, context)),
+			];
+		} catch (e) {
+			return [...nativeIssues, ...toIssues(String(e))];
+		}
+	};
 
-			return !setError(err);
+	const validateSchema = async (v: T) => {
+		if (!props.schema) return [];
+		try {
+			return await toSchemaValidator(props.schema)(v);
 		} catch (e) {
-			setError(String(e));
-			return false;
+			return [{ message: String(e) }];
 		}
 	};
 
-	const validate = async () => {
+	// Results are dropped if a newer run started or the value changed while validating.
+	const run = (children: Control<FieldTypes>[]) => {
+		if (isExcluded()) {
+			controller?.abort();
+			version++;
+			setIsValidating(false);
+			pending = Promise.resolve(true);
+			return pending;
+		}
+		controller?.abort();
+		controller = new AbortController();
+		const context: ValidateContext<T> = {
+			signal: controller.signal,
+			value: value(),
+			version: ++version,
+			parent: props.parent?.value(),
+			root: getRoot(control).value(),
+		};
 		batch(() => {
 			setIsValidating(true);
-			setIsValidated(false);
+			setIsSelfValidated(false);
 		});
-		const result = await Promise.all([
-			validateSelf(),
-			...fieldArray().map((f) => f.validate()),
-		]);
 
+		pending = (async () => {
+			const [own, schemaIssues, ...result] = await Promise.all([
+				validateSelf(context),
+				validateSchema(context.value),
+				...children.map((f) => f.validate()),
+			]);
+			const childrenValid = result.every(Boolean);
+			if (context.version !== version) return (await pending) && childrenValid;
+
+			const isCurrent = context.value === value();
+			batch(() => {
+				setIsValidating(false);
+				if (!isCurrent) return;
+				setOwnIssues(own);
+				if (props.schema) applySchemaIssues(control, schemaIssues);
+				if (!persistManualError) _setManualError("");
+				setIsSelfValidated(true);
+				hasValidated = true;
+			});
+			return (
+				isCurrent &&
+				!own.some(isErrorIssue) &&
+				!manualError() &&
+				schemaIssues.every((issue) =>
+					findClosestField(control, issue.path ?? "").isExcluded(),
+				) &&
+				childrenValid
+			);
+		})();
+		return pending;
+	};
+
+	const validate = () => run(fieldArray());
+	const validateOwn = () => run([]);
+
+	const isTouched = createMemo(
+		() => touchCount() > 0 || fieldArray().some((f) => f.isTouched()),
+	);
+
+	const touchedFields = (): string[] => {
+		const paths = touchCount() > 0 ? [""] : [];
+		for (const [name, field] of fields()) {
+			for (const path of field.touchedFields()) {
+				paths.push(path ? `${String(name)}.${path}` : String(name));
+			}
+		}
+		return paths;
+	};
+
+	const markAllTouched = () => {
 		batch(() => {
-			setIsValidating(false);
-			setIsValidated(true);
+			setTouchCount((count) => count || 1);
+			for (const field of fieldArray()) field.markAllTouched();
 		});
-		return result.every(Boolean);
 	};
 
-	const isPristine = createMemo(() => initialValue === value());
+	// Method in effect. Switches to revalidateMethod while the last validation left an error in this control or its children.
+	const activeMethod = () =>
+		(hasError(control) && revalidateMethod()) || validationMethod();
+
+	const validatesOnBlur = () => {
+		const method = activeMethod();
+		return (
+			method === "onBlur" ||
+			method === "onChangeAfterBlur" ||
+			(method === "onBlurAfterSubmit" && isSubmitted())
+		);
+	};
+
+	const validatesOnChange = () => {
+		const method = activeMethod();
+		return (
+			method === "onChange" ||
+			(method === "onChangeAfterSubmit" && isSubmitted()) ||
+			(method === "onChangeAfterBlur" && isTouched())
+		);
+	};
+
+	const onBlur = () => {
+		setTouchCount((count) => count + 1);
+		if (validatesOnBlur()) validate();
+		props.parent?.onChildBlur();
+	};
+
+	const onChildBlur = () => {
+		if (validatesOnBlur()) validateOwn();
+		props.parent?.onChildBlur();
+	};
+
+	const scheduleValidation = () => {
+		clearTimeout(debounceTimer);
+		if (props.debounce) {
+			debounceTimer = setTimeout(validateOwn, props.debounce);
+		} else {
+			validateOwn();
+		}
+	};
+
+	// Value and dependency values set by the last reset. Changing to them is not validated, even when the effects
+	// run after an outer batch. Cleared by the next change.
+	let resetValue: { value: T } | undefined;
+	let resetDeps: unknown[] | undefined;
+
+	const notifyChange = () => {
+		clearTimeout(debounceTimer);
+		const reset = resetValue;
+		resetValue = undefined;
+		if (reset && Object.is(value(), reset.value)) return;
+		if (!validatesOnChange()) return;
+		scheduleValidation();
+	};
+
+	// Children validate themselves when their own value changes, so only validate own value here.
+	createEffect(on(value, notifyChange, { defer: true }));
+
+	const depValues = createMemo(
+		() =>
+			(props.deps ?? []).map((dep) => getPathValue(props.parent?.value(), dep)),
+		[],
+		{
+			equals: (a, b) =>
+				a.length === b.length && a.every((v, i) => Object.is(v, b[i])),
+		},
+	);
+
+	createEffect(
+		on(
+			depValues,
+			(values) => {
+				const reset = resetDeps;
+				resetDeps = undefined;
+				if (reset && values.every((v, i) => Object.is(v, reset[i]))) return;
+				if (!(hasValidated || validatesOnChange())) return;
+				scheduleValidation();
+			},
+			{ defer: true },
+		),
+	);
+
+	const isPristine = createMemo(() =>
+		(props.isEqual ?? deepEqual)(initialValue(), value()),
+	);
 	const isDirty = () => !isPristine();
 
+	const hasWarnings = createMemo(
+		() => warnings().length > 0 || fieldArray().some((f) => f.hasWarnings()),
+	);
+
+	// Manual errors show without validation. Disabled controls are never invalid.
 	const isInvalid = createMemo(
 		() =>
-			(isValidated() && Boolean(error())) ||
-			fieldArray().some((f) => f.isInvalid()),
+			!isExcluded() &&
+			(Boolean(manualError()) ||
+				(isSelfValidated() && Boolean(error())) ||
+				fieldArray().some((f) => f.isInvalid())),
 	);
 	const isValid = createMemo(() => {
 		return isValidated() && !isInvalid();
 	});
 
-	const focusError = (): boolean => {
-		const elem = getRef();
-		if (elem && isInvalid()) {
-			elem.focus();
-			return true;
-		}
+	const focusError = (options: FocusErrorOptions = {}): boolean => {
+		const [first] = getErrorElements(control, getAncestorElement(control)).sort(
+			compareDocumentPosition,
+		);
+		if (!first) return false;
+		focusElement(first, options);
+		return true;
+	};
 
-		for (const field of fieldArray()) {
-			if (field.focusError()) return true;
+	const resetState = (nextInitialValue: T, options: ResetOptions) => {
+		resetValue = { value: nextInitialValue };
+		setInitialValue(() => nextInitialValue);
+		resetDeps = (props.deps ?? []).map((dep) =>
+			getPathValue(props.parent?.initialValue(), dep),
+		);
+		if (!options.keepErrors) {
+			controller?.abort();
+			clearTimeout(debounceTimer);
+			version++;
+			pending = Promise.resolve(false);
+			hasValidated = false;
+			setIsValidating(false);
+			setIsSelfValidated(false);
+			clearOwnErrors();
 		}
-		return false;
+		if (!options.keepTouched) setTouchCount(0);
+		for (const [name, field] of fields()) {
+			field.resetState(nextInitialValue?.[name], options);
+		}
+	};
+
+	const reset = (
+		nextInitialValue: T = initialValue(),
+		options: ResetOptions = {},
+	) => {
+		const nextValue = options.keepDirtyValues
+			? mergeDirtyValues(control, nextInitialValue)
+			: nextInitialValue;
+		batch(() => {
+			setValue(() => nextValue);
+			resetState(nextInitialValue, options);
+			resetValue = { value: nextValue };
+		});
+	};
+
+	const resetField = (path: PathInput, options?: ResetOptions) => {
+		const field = findField(control, path);
+		if (!field) throw new Error(`Field "${String(path)}" not registered`);
+		field.reset(undefined, options);
+	};
+
+	const setManualError = (message: string, options: SetErrorOptions = {}) => {
+		persistManualError = Boolean(options.persistUntilChange);
+		_setManualError(message);
 	};
 
-	return {
+	const clearOwnErrors = () => {
+		batch(() => {
+			setOwnIssues([]);
+			setSchemaError("");
+			_setManualError("");
+		});
+	};
+
+	const saveState = (): ControlState => ({
+		issues: ownIssues(),
+		manualError: manualError(),
+		touchCount: touchCount(),
+		isValidated: isSelfValidated(),
+	});
+
+	const restoreState = (state: ControlState) => {
+		batch(() => {
+			setOwnIssues(state.issues);
+			_setManualError(state.manualError);
+			setTouchCount(state.touchCount);
+			setIsSelfValidated(state.isValidated);
+		});
+		hasValidated = state.isValidated;
+	};
+
+	const setError = (
+		path: PathInput,
+		message: string,
+		options?: SetErrorOptions,
+	) => findClosestField(control, path).setManualError(message, options);
+
+	const clearErrors = (paths: PathInput[] = [""]) => {
+		batch(() => {
+			for (const path of paths) {
+				const field = findField(control, path);
+				if (field) clearTree(field);
+			}
+		});
+	};
+
+	const control: Control<T> = {
 		value,
 		setValue,
 		getField,
 		initialValue,
+		reset,
+		resetField,
+		resetState,
 		fields,
 		setFields,
 		error,
+		issues,
+		errors,
+		warnings,
+		hasWarnings,
+		setSchemaError,
+		setError,
+		clearErrors,
+		setManualError,
+		clearOwnErrors,
 		isDirty,
 		isPristine,
 		isValidating,
@@ -224,8 +895,111 @@ export function createControl<T>(props: ControlProps<T>): Control<T> {
 		isValid,
 		isInvalid,
 		ref,
+		element: getRef,
+		id,
+		errorId: `${id}-error`,
 		focusError,
 		fieldArray,
 		validate,
+		validateOwn,
+		parent: props.parent,
+		pathKey: () => props.pathKey?.(),
+		validationMethod,
+		revalidateMethod,
+		isSubmitted,
+		nativeValidation,
+		isDisabled,
+		isExcluded,
+		isReadOnly,
+		isSubmitting,
+		shouldUnregister,
+		keepState,
+		saveState,
+		restoreState,
+		transaction,
+		touchCount,
+		setTouchCount,
+		isTouched,
+		touchedFields,
+		markAllTouched,
+		onBlur,
+		onChildBlur,
+		notifyChange,
 	};
+	return control;
+}
+
+function hasError(control: Control<FieldTypes>): boolean {
+	return Boolean(control.error()) || control.fieldArray().some(hasError);
+}
+
+// Keeps the current value of dirty fields and takes the next value for pristine ones.
+function mergeDirtyValues<T>(control: Control<T>, next: T): T {
+	const current = control.value();
+	if (control.isPristine()) return next;
+	if (!isPlainObject(current) || !isPlainObject(next)) return current;
+
+	const initial = control.initialValue() as Record<PropertyKey, unknown>;
+	const merged = { ...next } as Record<PropertyKey, unknown>;
+	for (const [key, value] of Object.entries(current as object)) {
+		const field = control.fields().get(key as keyof T);
+		if (field) {
+			merged[key] = mergeDirtyValues(field, merged[key]);
+		} else if (!deepEqual(initial?.[key], value)) {
+			merged[key] = value;
+		}
+	}
+	return merged as T;
+}
+
+function clearTree(control: Control<FieldTypes>): void {
+	control.clearOwnErrors();
+	for (const field of control.fieldArray()) clearTree(field);
+}
+
+// Elements of the controls with an error, using the closest ancestor element for controls without one.
+function getErrorElements(
+	control: Control<FieldTypes>,
+	fallback: Ref | undefined,
+): Ref[] {
+	const elem = control.element() ?? fallback;
+	const list = elem && control.error() && control.isInvalid() ? [elem] : [];
+	for (const field of control.fieldArray()) {
+		list.push(...getErrorElements(field, elem));
+	}
+	return list;
+}
+
+function getAncestorElement(control: Control<FieldTypes>): Ref | undefined {
+	const parent = control.parent;
+	return parent ? parent.element() ?? getAncestorElement(parent) : undefined;
+}
+
+function compareDocumentPosition(a: Ref, b: Ref): number {
+	if (a === b) return 0;
+	return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING
+		? -1
+		: 1;
+}
+
+// Scrolls to the element as configured, then focuses it. Without options the browser scrolls on focus.
+function focusElement(elem: Ref, options: FocusErrorOptions): void {
+	const scroll =
+		!options.preventScroll &&
+		(options.offset !== undefined || options.behavior || options.block);
+	if (scroll && options.offset !== undefined) {
+		const top =
+			elem.getBoundingClientRect().top + window.scrollY - options.offset;
+		window.scrollTo({ top, behavior: options.behavior });
+	} else if (scroll) {
+		elem.scrollIntoView({
+			behavior: options.behavior,
+			block: options.block ?? "center",
+		});
+	}
+	elem.focus({ preventScroll: Boolean(options.preventScroll || scroll) });
+}
+
+function getRoot(control: Control<FieldTypes>): Control<FieldTypes> {
+	return control.parent ? getRoot(control.parent) : control;
 }
@@ -0,0 +1,192 @@
+import {
+	type Accessor,
+	createEffect,
+	createMemo,
+	createSignal,
+	For,
+	type JSX,
+	on,
+	Show,
+} from "solid-js";
+import type { Control, FieldTypes } from "./";
+
+/** Entry of the devtools timeline. */
+export type TimelineEntry = {
+	time: number; // Time of the entry from Date.now().
+	type: "change" | "validation"; // Value change of the form or completed validation of a control.
+	path: string; // Dotted path of the control, "" for the form.
+	detail: string; // Serialized value for changes, error or "valid" for validations.
+};
+
+/** Props for the FormDevtools component. */
+export type FormDevtoolsProps<T> = {
+	control: Control<T>; // Control of the form to inspect.
+	maxEntries?: number; // Maximum number of timeline entries kept. Defaults to 100.
+};
+
+/**
+ * Inspector panel for a form: the control tree with the state of each control, a timeline of changes and validations,
+ * and buttons to validate, reset and set values. Renders nothing in production builds.
+ * @template T - The type of the form value.
+ * @param props - Props containing the control to inspect.
+ * @returns JSX element of the panel.
+ */
+export const FormDevtools: <T>(props: FormDevtoolsProps<T>) => JSX.Element =
+	import.meta.env.DEV ? DevtoolsPanel : () => null;
+
+function DevtoolsPanel<T>(props: FormDevtoolsProps<T>): JSX.Element {
+	const [timeline, setTimeline] = createSignal<TimelineEntry[]>([]);
+	const log = (type: TimelineEntry["type"], path: string, detail: string) =>
+		setTimeline((entries) =>
+			[{ time: Date.now(), type, path, detail }, ...entries].slice(
+				0,
+				props.maxEntries ?? 100,
+			),
+		);
+
+	createEffect(
+		on(
+			() => props.control.value(),
+			(value) => log("change", "", stringify(value)),
+			{ defer: true },
+		),
+	);
+
+	return (
+		<section data-form-devtools style={panelStyle}>
+			<strong>Form devtools</strong>
+			<ControlNode
+				control={props.control as Control<FieldTypes>}
+				path=""
+				log={log}
+			/>
+			<details open>
+				<summary>Timeline</summary>
+				<ol style={{ margin: 0, "padding-left": "1.5em" }}>
+					<For each={timeline()}>
+						{(entry) => (
+							<li>
+								{new Date(entry.time).toLocaleTimeString()} {entry.type}{" "}
+								{entry.path || "(form)"}: {entry.detail}
+							</li>
+						)}
+					</For>
+				</ol>
+			</details>
+		</section>
+	);
+}
+
+function ControlNode(props: {
+	control: Control<FieldTypes>;
+	path: string;
+	log: (type: TimelineEntry["type"], path: string, detail: string) => void;
+}): JSX.Element {
+	const [draft, setDraft] = createSignal<string>();
+	const value = createMemo(() => stringify(props.control.value()));
+
+	// Logs each completed validation of this control and its children.
+	createEffect(
+		on(
+			() => props.control.isValidated(),
+			(validated) => {
+				if (validated)
+					props.log("validation", props.path, props.control.error() || "valid");
+			},
+			{ defer: true },
+		),
+	);
+
+	// Sets the value from the JSON typed in the panel.
+	const apply = () => {
+		const text = draft();
+		if (text === undefined) return;
+		try {
+			const next = JSON.parse(text);
+			props.control.setValue(() => next);
+			setDraft(undefined);
+		} catch (e) {
+			props.log("change", props.path, `invalid JSON: ${String(e)}`);
+		}
+	};
+
+	const state: [string, Accessor<boolean>][] = [
+		["dirty", () => props.control.isDirty()],
+		["validating", () => props.control.isValidating()],
+		["validated", () => props.control.isValidated()],
+		["touched", () => props.control.isTouched()],
+	];
+
+	return (
+		<details open style={{ "padding-left": "1em" }}>
+			<summary>
+				{props.path.split(".").pop() || "(form)"}{" "}
+				<Show when={props.control.error()}>
+					<span style={{ color: "#c00" }}>{props.control.error()}</span>
+				</Show>
+			</summary>
+			<div>
+				value:{" "}
+				<input
+					value={draft() ?? value()}
+					onInput={(e) => setDraft(e.target.value)}
+					onKeyDown={(e) => e.key === "Enter" && apply()}
+				/>{" "}
+				<button type="button" onClick={apply} disabled={draft() === undefined}>
+					Set
+				</button>
+			</div>
+			<div>initialValue: {stringify(props.control.initialValue())}</div>
+			<div>
+				<For each={state}>
+					{([name, flag]) => (
+						<span
+							style={{ opacity: flag() ? 1 : 0.4, "margin-right": "0.5em" }}
+						>
+							{name}
+						</span>
+					)}
+				</For>
+			</div>
+			<div>
+				<button type="button" onClick={() => props.control.validate()}>
+					Validate
+				</button>{" "}
+				<button type="button" onClick={() => props.control.reset()}>
+					Reset
+				</button>
+			</div>
+			<For each={[...props.control.fields().keys()]}>
+				{(name) => (
+					<Show when={props.control.fields().get(name)}>
+						{(child) => (
+							<ControlNode
+								control={child()}
+								path={
+									props.path ? `${props.path}.${String(name)}` : String(name)
+								}
+								log={props.log}
+							/>
+						)}
+					</Show>
+				)}
+			</For>
+		</details>
+	);
+}
+
+// Serializes a value for display. Falls back to String for values JSON cannot represent.
+function stringify(value: unknown): string {
+	try {
+		return JSON.stringify(value) ?? String(value);
+	} catch {
+		return String(value);
+	}
+}
+
+const panelStyle: JSX.CSSProperties = {
+	"font-family": "monospace",
+	"font-size": "12px",
+	border: "1px solid #ccc",
+	padding: "0.5em",
+};
@@ -0,0 +1,80 @@
+/**
+ * Function comparing two values for equality.
+ * @template T - The type of values being compared.
+ */
+export type IsEqual<T> = (a: T, b: T) => boolean;
+
+/**
+ * Structural equality used by default for isPristine/isDirty.
+ * Compares primitives with Object.is, Dates by time, Maps and Sets by content, and arrays and plain objects recursively.
+ * Other objects (class instances, files...) are compared by reference.
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns True if both values have the same content.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) return true;
+	if (
+		typeof a !== "object" ||
+		typeof b !== "object" ||
+		a === null ||
+		b === null
+	) {
+		return false;
+	}
+	if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+	if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+
+	if (Array.isArray(a)) {
+		const other = b as unknown[];
+		return (
+			a.length === other.length && a.every((v, i) => deepEqual(v, other[i]))
+		);
+	}
+
+	if (a instanceof Map) {
+		const other = b as Map<unknown, unknown>;
+		if (a.size !== other.size) return false;
+		for (const [key, value] of a) {
+			if (!other.has(key) || !deepEqual(value, other.get(key))) return false;
+		}
+		return true;
+	}
+
+	if (a instanceof Set) {
+		const other = b as Set<unknown>;
+		if (a.size !== other.size) return false;
+		for (const value of a) {
+			if (!other.has(value)) return false;
+		}
+		return true;
+	}
+
+	if (!isPlainObject(a)) return false;
+
+	const keysA = Object.keys(a);
+	const keysB = Object.keys(b);
+	return (
+		keysA.length === keysB.length &&
+		keysA.every(
+			(key) =>
+				Object.prototype.hasOwnProperty.call(b, key) &&
+				deepEqual(
+					(a as Record<string, unknown>)[key],
+					(b as Record<string, unknown>)[key],
+				),
+		)
+	);
+}
+
+/**
+ * Checks if a value is an object created by an object literal or Object.create(null).
+ * @param value - Value to check.
+ * @returns True if the value is a plain object.
+ */
+export function isPlainObject(value: unknown): value is object {
+	if (typeof value !== "object" || value === null) return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
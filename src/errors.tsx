@@ -0,0 +1,68 @@
+import { For, type JSX, Show } from "solid-js";
+import { type Control, findField, getErrorMap } from "./";
+
+/**
+ * Renders the error of a control with the id referenced by aria-describedby and aria-errormessage of its input.
+ * Renders nothing while the control is not invalid.
+ * @template T - The type of value controlled.
+ * @param props - Props containing the control, and optional children to render the error.
+ * @returns JSX element of the error.
+ */
+export function ErrorMessage<T>(props: {
+	control: Control<T>; // Control whose error is rendered.
+	children?: (error: string) => JSX.Element; // Renders the error. Defaults to the message.
+}): JSX.Element {
+	return (
+		<Show when={props.control.isInvalid() && props.control.error()}>
+			{(error) => (
+				<span id={props.control.errorId}>
+					{props.children ? props.children(error()) : error()}
+				</span>
+			)}
+		</Show>
+	);
+}
+
+/**
+ * Lists the errors of a control and its children as links focusing the field with the error.
+ * Changes are announced by screen readers through a live region.
+ * @template T - The type of value controlled.
+ * @param props - Props containing the control, usually of the form, and an optional title.
+ * @returns JSX element of the summary.
+ */
+export function ErrorSummary<T>(props: {
+	control: Control<T>; // Control whose errors are listed, usually the form control.
+	title?: JSX.Element; // Heading shown above the errors.
+	children?: (error: string, path: string) => JSX.Element; // Renders the content of each link. Defaults to the message.
+}): JSX.Element {
+	const errors = () =>
+		Object.entries(getErrorMap(props.control) as Record<string, string>).filter(
+			([path, message]) =>
+				message && findField(props.control, path)?.isInvalid(),
+		);
+
+	return (
+		<div role="status" aria-live="polite">
+			<Show when={errors().length}>
+				{props.title}
+				<ul>
+					<For each={errors()}>
+						{([path, message]) => (
+							<li>
+								<a
+									href={`#${findField(props.control, path)?.id}`}
+									onClick={(e) => {
+										e.preventDefault();
+										findField(props.control, path)?.focusError();
+									}}
+								>
+									{props.children ? props.children(message, path) : message}
+								</a>
+							</li>
+						)}
+					</For>
+				</ul>
+			</Show>
+		</div>
+	);
+}
@@ -1,10 +1,8 @@
 import {
-	type Accessor,
 	ComponentProps,
 	type JSX,
 	type Setter,
 	createMemo,
-	createSignal,
 	mergeProps,
 	onCleanup,
 	onMount,
@@ -15,7 +13,13 @@ import {
 	type Control,
 	type ControlProps,
 	type ExposedControlProps,
+	type NativeValidation,
+	type UnregisterPolicy,
+	type ValidationMethod,
+	type TransformApi,
+	type TransformProps,
 	createControl,
+	createTransform,
 	registerField,
 	unregisterField,
 } from "./";
@@ -30,10 +34,18 @@ export type FieldProps<
 	TParent,
 	TKey extends keyof TParent = keyof TParent,
 	TValue = TParent[TKey],
-> = Pick<ControlProps<TValue>, "validate"> & {
-	control: Control<TParent>; // Control object managing the form state.
-	name: TKey; // Name of the field within the parent object.
-};
+> = Pick<ControlProps<TValue>, "validate" | "debounce" | "isEqual" | "deps"> &
+	TransformProps<TValue> & {
+		control: Control<TParent>; // Control object managing the form state.
+		name: TKey; // Name of the field within the parent object.
+		validationMethod?: ValidationMethod; // When to validate. Inherited from the parent if not set.
+		revalidateMethod?: ValidationMethod; // When to validate again while the field has an error. Inherited from the parent if not set.
+		nativeValidation?: NativeValidation; // Validates the native constraints of the element bound with ref. Inherited from the parent if not set.
+		shouldUnregister?: UnregisterPolicy; // On unmount, true removes the value from the parent and "initial" restores the initial value. Inherited from the parent if not set.
+		keepState?: boolean; // Keeps errors and touch state while unmounted so they come back on mount. Inherited from the parent if not set.
+		disabled?: boolean; // Disables the field and its children. Disabled fields skip validation and are not counted as invalid.
+		readOnly?: boolean; // Makes the field and its children read-only.
+	};
 
 /**
  * API for a field component, extending Control to manage the field state.
@@ -45,14 +57,12 @@ export type FieldApi<
 	TParent,
 	TKey extends keyof TParent = keyof TParent,
 	TValue = TParent[TKey],
-> = ExposedControlProps<TValue> & {
-	control: Control<TValue>; // Control object managing the field state.
-	name: TKey; // Name of the field within the parent object.
-	Field: FieldComponent<TValue>; // Component function to render this field.
-	touchCount: Accessor<number>;
-	setTouchCount: Setter<number>;
-	isTouched: Accessor<boolean>;
-};
+> = ExposedControlProps<TValue> &
+	TransformApi & {
+		control: Control<TValue>; // Control object managing the field state.
+		name: TKey; // Name of the field within the parent object.
+		Field: FieldComponent<TValue>; // Component function to render this field.
+	};
 
 /**
  * Creates a field API object for a specific field within a parent object.
@@ -75,6 +85,7 @@ export function createField<
 		props.control.setValue((prev: TParent) => {
 			const newValue: TValue =
 				typeof value === "function" ? value(prev?.[props.name]) : value;
+			if (Object.is(newValue, prev?.[props.name])) return prev; // Unchanged values leave the parent as it is.
 			if (Array.isArray(prev)) {
 				const array = [...prev];
 				array.splice(Number(props.name), 1, newValue);
@@ -86,10 +97,26 @@ export function createField<
 			};
 		});
 
+	const transform = createTransform<TValue>(props);
+
 	// Creates a control object specifically for managing this field.
-	const control = createControl({ value, setValue, validate: props.validate });
-	const [touchCount, setTouchCount] = createSignal(0);
-	const isTouched = createMemo(() => touchCount() > 0);
+	const control = createControl({
+		value,
+		setValue,
+		validate: transform.validate(props.validate),
+		debounce: props.debounce,
+		isEqual: props.isEqual,
+		deps: props.deps,
+		parent: props.control,
+		pathKey: () => props.name,
+		validationMethod: () => props.validationMethod,
+		nativeValidation: () => props.nativeValidation,
+		shouldUnregister: () => props.shouldUnregister,
+		keepState: () => props.keepState,
+		disabled: () => props.disabled,
+		readOnly: () => props.readOnly,
+		revalidateMethod: () => props.revalidateMethod,
+	});
 
 	// Register field on mount and unregister on cleanup.
 	onMount(() => registerField(props.control, props.name, control));
@@ -100,9 +127,7 @@ export function createField<
 		name: props.name,
 		control,
 		...control,
-		isTouched,
-		touchCount,
-		setTouchCount,
+		...transform.bind(control),
 		Field: createFieldComponent(control),
 	};
 }
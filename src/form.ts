@@ -1,22 +1,39 @@
 import {
 	type Accessor,
 	batch,
-	createEffect,
+	type ComponentProps,
 	createMemo,
 	createSignal,
+	getOwner,
 	type JSX,
-	on,
-	Setter,
+	runWithOwner,
+	type Setter,
 } from "solid-js";
 
 import {
 	type Control,
 	type ControlProps,
 	createControl,
+	createHistory,
 	createFieldComponent,
+	createPersist,
 	type ExposedControlProps,
 	type FieldComponent,
+	type FieldTypes,
+	type FocusErrorOptions,
+	type HistoryOptions,
+	type HistoryState,
+	type NativeValidation,
+	type UnregisterPolicy,
+	type Path,
+	type PersistOptions,
+	type PathValue,
+	type ResetOptions,
 	type ValidationMethod,
+	findField,
+	getEnabledValue,
+	getPathValue,
+	setPathValue,
 } from "./";
 
 /**
@@ -25,10 +42,19 @@ import {
  */
 export type FormProps<TValue extends object> = Pick<
 	ControlProps<TValue>,
-	"validate"
+	"validate" | "schema" | "debounce" | "isEqual"
 > & {
 	initialValue: TValue; // Initial value object for the form.
-	validationMethod?: ValidationMethod;
+	validationMethod?: ValidationMethod; // When to validate. Defaults to "onSubmit".
+	revalidateMethod?: ValidationMethod; // When to validate again while a field has an error. Defaults to validationMethod.
+	persist?: PersistOptions<TValue>; // Saves drafts of the value to a storage and restores them on creation.
+	history?: HistoryOptions; // Options for the undo/redo history.
+	nativeValidation?: NativeValidation; // Validates the native constraints (required, pattern, min...) of the field elements and sets their custom validity. Defaults to false.
+	shouldUnregister?: UnregisterPolicy; // What happens to the value of unmounted fields: kept (false, default), removed (true) or set back to initial ("initial").
+	keepState?: boolean; // Keeps errors and touch state of unmounted fields so they come back on mount. Defaults to false.
+	disabled?: boolean; // Disables all fields. Fields are also disabled while the form is submitting.
+	readOnly?: boolean; // Makes all fields read-only.
+	excludeDisabled?: boolean; // Leaves disabled fields out of the value given to onValid. Defaults to false.
 };
 
 /**
@@ -41,13 +67,56 @@ export type FormApi<TValue extends object> = ExposedControlProps<TValue> & {
 	handleSubmit: (
 		onValid?: (value: TValue, control: Control<TValue>) => unknown,
 		onInvalid?: (value: TValue, control: Control<TValue>) => unknown,
-	) => Promise<void>; // Handles form submission with optional callbacks based on form validity.
+		focusOptions?: FocusErrorOptions,
+	) => Promise<void>; // Handles form submission with optional callbacks based on form validity. focusOptions are used to focus the first error.
 	response: Accessor<unknown>; // Accessor to store the form submission response.
+	reset: (nextInitialValue?: TValue, options?: ResetOptions) => void; // Resets value, errors, touched state, response and submitCount. nextInitialValue becomes the new initial value.
 	submitCount: Accessor<number>;
 	isSubmitting: Accessor<boolean>;
 	isSubmitted: Accessor<boolean>;
+	setValue: Setter<TValue> & PathSetter<TValue>; // Sets the form value, or the nested value at a path when called with a path and a value.
+	getValue: <P extends Path<TValue>>(path: P) => PathValue<TValue, P>; // Reads the nested value at a path.
+	watch: <P extends Path<TValue>>(path: P) => Accessor<PathValue<TValue, P>>; // Returns an accessor for the nested value at a path.
+	getFieldByPath: <P extends Path<TValue>>(
+		path: P,
+	) => Control<PathValue<TValue, P>>; // Returns the mounted control at a path, or a detached control if no field is mounted for it.
+	clearDraft: () => Promise<void>; // Removes the persisted draft, e.g. after a successful submit.
+	undo: () => boolean; // Restores the value before the last step. Returns false if there is nothing to undo.
+	redo: () => boolean; // Restores the value of the last undone step. Returns false if there is nothing to redo.
+	canUndo: Accessor<boolean>;
+	canRedo: Accessor<boolean>;
+	history: Accessor<HistoryState<TValue>>; // Snapshots of the value for undo and redo.
+	props: (options?: FormElementOptions<TValue>) => ComponentProps<"form">; // Props binding a native form element to handleSubmit.
 };
 
+/**
+ * Action receiving the FormData of a submitted form, e.g. a SolidStart action. Its url is used as the action attribute so the form posts to it without JavaScript.
+ */
+export type FormAction = ((formData: FormData) => unknown) & { url?: string };
+
+/**
+ * Options for the props of a native form element.
+ * @template TValue - The type of the form's value object.
+ */
+export type FormElementOptions<TValue extends object> = {
+	onValid?: (value: TValue, control: Control<TValue>) => unknown; // Called after the action when the form is valid. Its result becomes the response.
+	onInvalid?: (value: TValue, control: Control<TValue>) => unknown; // Called when the form is invalid.
+	action?: string | FormAction; // URL posted to without JavaScript, or an action called with the FormData when the form is valid.
+	method?: "get" | "post"; // Method used without JavaScript. Defaults to "post".
+	focusOptions?: FocusErrorOptions; // Options to focus the first error when the form is invalid.
+};
+
+/**
+ * Sets the nested value at a path. Accepts a value or a function of the previous value like a Setter.
+ * @template TValue - The type of the form's value object.
+ */
+export type PathSetter<TValue> = <P extends Path<TValue>>(
+	path: P,
+	value:
+		| PathValue<TValue, P>
+		| ((prev: PathValue<TValue, P>) => PathValue<TValue, P>),
+) => void;
+
 /**
  * Creates a reactive form object.
  * @template TValue - The type of the form's initial value object.
@@ -57,33 +126,47 @@ export type FormApi<TValue extends object> = ExposedControlProps<TValue> & {
 export function createForm<TValue extends object>(
 	props: FormProps<TValue>,
 ): FormApi<TValue> {
-	const [value, setValue] = createSignal(props.initialValue); // State signal for form value.
+	const [value, setSignal] = createSignal(props.initialValue); // State signal for form value.
+	// Records the changes of the value for undo and redo.
+	const history = createHistory(value, setSignal, props.history);
 	const [submitCount, setSubmitCount] = createSignal(0);
 	const isSubmitted = createMemo(() => submitCount() > 0);
 	const [isSubmitting, setIsSubmitting] = createSignal(false); // State signal for form submission process.
 	const [response, setResponse] = createSignal<unknown>(); // State signal for form submission response.
 
-	createEffect(() => {
-		if (
-			props.validationMethod === "onChange" ||
-			(props.validationMethod === "onChangeAfterSubmit" && isSubmitted())
-		) {
-			createEffect(on(value, () => control.validate()));
-		}
-	});
-
 	// Create a Control object to manage form state and validation.
 	const control = createControl<TValue>({
 		value,
-		setValue,
+		setValue: history.setValue,
 		validate: props.validate,
+		schema: props.schema,
+		debounce: props.debounce,
+		isEqual: props.isEqual,
+		validationMethod: () => props.validationMethod,
+		nativeValidation: () => props.nativeValidation,
+		shouldUnregister: () => props.shouldUnregister,
+		keepState: () => props.keepState,
+		disabled: () => props.disabled,
+		readOnly: () => props.readOnly,
+		isSubmitting,
+		revalidateMethod: () => props.revalidateMethod,
+		isSubmitted,
+		transaction: history.transaction,
 	});
 
+	// Restores the draft into the value, keeping initialValue as the baseline.
+	// The restored draft is the start of the history, so it cannot be undone.
+	const { clearDraft } = props.persist
+		? createPersist(control, props.persist, history.clear)
+		: { clearDraft: async () => {} };
+
 	// Handles form submission process.
 	const handleSubmit = async (
 		onValid?: (value: TValue, control: Control<TValue>) => unknown,
 		onInvalid?: (value: TValue, control: Control<TValue>) => unknown,
+		focusOptions?: FocusErrorOptions,
 	) => {
+		let isInvalid = false;
 		try {
 			await control.validate(); // Validate the form fields.
 			batch(() => {
@@ -92,9 +175,13 @@ export function createForm<TValue extends object>(
 			});
 			if (control.isValid()) {
 				// If form is valid, execute onValid callback and set response.
-				setResponse(await onValid?.(value(), control));
+				const submitted = props.excludeDisabled
+					? getEnabledValue(control)
+					: value();
+				setResponse(await onValid?.(submitted, control));
 			} else {
-				control.focusError(); // Focus on the first field with validation error.
+				isInvalid = true;
+				control.markAllTouched(); // Mark all fields touched to show all errors.
 				setResponse(await onInvalid?.(value(), control)); // Execute onInvalid callback and set response.
 			}
 		} catch (e) {
@@ -103,6 +190,87 @@ export function createForm<TValue extends object>(
 			setIsSubmitting(false); // Set form submitting status to false.
 			setSubmitCount((v) => v + 1);
 		}
+		// Fields are disabled while submitting, so focus once they are enabled again.
+		if (isInvalid) control.focusError(focusOptions); // Focus on the first field with validation error.
+	};
+
+	// Native form submission. The action attribute keeps the form working before hydration or without JavaScript.
+	const formProps = (
+		options: FormElementOptions<TValue> = {},
+	): ComponentProps<"form"> => {
+		const { action } = options;
+		return {
+			method: options.method ?? "post",
+			action: typeof action === "function" ? action.url : action,
+			// Native validation would block the submit event, so it is only left on before hydration.
+			ref: (el) => {
+				el.noValidate = true;
+			},
+			onSubmit: (e) => {
+				e.preventDefault();
+				const formData = new FormData(e.currentTarget, e.submitter);
+				return handleSubmit(
+					async (value, control) => {
+						const result =
+							typeof action === "function" ? await action(formData) : undefined;
+						return options.onValid ? options.onValid(value, control) : result;
+					},
+					options.onInvalid,
+					options.focusOptions,
+				);
+			},
+		};
+	};
+
+	// Resets the form and its submission state.
+	const reset = (nextInitialValue?: TValue, options: ResetOptions = {}) => {
+		batch(() => {
+			control.reset(nextInitialValue, options);
+			history.clear();
+			setResponse();
+			if (!options.keepSubmitCount) setSubmitCount(0);
+		});
+	};
+
+	const setPath = (path: string, next: unknown) =>
+		control.setValue((prev) =>
+			setPathValue(
+				prev,
+				path,
+				typeof next === "function" ? next(getPathValue(prev, path)) : next,
+			),
+		);
+
+	// Setter for the form value, or for the nested value at a path when called with two arguments.
+	const setFormValue = ((
+		...args: Parameters<Setter<TValue>> | [string, unknown]
+	) => {
+		if (args.length > 1) return setPath(args[0] as string, args[1]);
+		return control.setValue(...(args as Parameters<Setter<TValue>>));
+	}) as FormApi<TValue>["setValue"];
+
+	const getValue = (path: string) => getPathValue(value(), path);
+	const watch = (path: string) => () => getPathValue(value(), path);
+
+	// Detached controls for paths without a mounted field, created under the form owner.
+	const owner = getOwner();
+	const pathControls = new Map<string, Control<FieldTypes>>();
+	const getFieldByPath = (path: string): Control<FieldTypes> => {
+		const mounted = findField(control, path);
+		if (mounted) return mounted;
+		let detached = pathControls.get(path);
+		if (!detached) {
+			detached = runWithOwner(owner, () =>
+				createControl<FieldTypes>({
+					value: () => getPathValue(value(), path),
+					setValue: ((next: unknown) =>
+						setPath(path, next)) as Setter<FieldTypes>,
+					parent: control,
+				}),
+			) as Control<FieldTypes>;
+			pathControls.set(path, detached);
+		}
+		return detached;
 	};
 
 	// Return the FormApi object.
@@ -110,6 +278,18 @@ export function createForm<TValue extends object>(
 		control,
 		...control, // Spread Control properties (value, setValue, etc.).
 		handleSubmit,
+		reset,
+		setValue: setFormValue,
+		getValue: getValue as FormApi<TValue>["getValue"],
+		watch: watch as FormApi<TValue>["watch"],
+		getFieldByPath: getFieldByPath as FormApi<TValue>["getFieldByPath"],
+		clearDraft,
+		undo: history.undo,
+		redo: history.redo,
+		canUndo: history.canUndo,
+		canRedo: history.canRedo,
+		history: history.history,
+		props: formProps,
 		response,
 		isSubmitting,
 		submitCount,
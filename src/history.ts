@@ -0,0 +1,134 @@
+import { type Accessor, batch, createSignal, type Setter } from "solid-js";
+
+/** Options for the undo/redo history of a form. */
+export type HistoryOptions = {
+	maxDepth?: number; // Maximum number of steps kept for undo. Defaults to 100.
+	coalesce?: number; // Consecutive changes of the same path closer than this many milliseconds, like typing, are grouped into one step. Defaults to 500.
+};
+
+/**
+ * Snapshots of the value before and after the current one.
+ * @template T - The type of the value.
+ */
+export type HistoryState<T> = {
+	past: T[]; // Values restored by undo, the most recent last.
+	future: T[]; // Values restored by redo, the most recent last.
+};
+
+/**
+ * Creates an undo/redo history of snapshots of a value.
+ * @template T - The type of the value.
+ * @param value - Accessor for the value.
+ * @param setValue - Setter of the value signal, used to restore snapshots.
+ * @param options - Options for depth and coalescing.
+ * @returns setValue recording the changes, with undo, redo and transaction.
+ */
+export function createHistory<T>(
+	value: Accessor<T>,
+	setValue: Setter<T>,
+	options: HistoryOptions = {},
+) {
+	const [history, setHistory] = createSignal<HistoryState<T>>({
+		past: [],
+		future: [],
+	});
+	// Time of the last recorded change. 0 starts a new step on the next change.
+	let lastChange = 0;
+	// Path of the last recorded change. Changes of another path start a new step.
+	let lastPath = "";
+	// Depth of nested transactions. Changes inside them are recorded once at the end.
+	let depth = 0;
+
+	const push = (prev: T) =>
+		setHistory(({ past }) => ({
+			past: [...past, prev].slice(-(options.maxDepth ?? 100)),
+			future: [],
+		}));
+
+	const record = (prev: T) => {
+		if (depth) return;
+		const now = Date.now();
+		const path = changedPath(prev, value());
+		if (now - lastChange < (options.coalesce ?? 500) && path === lastPath) {
+			setHistory(({ past }) => ({ past, future: [] }));
+		} else {
+			push(prev);
+		}
+		lastChange = now;
+		lastPath = path;
+	};
+
+	const setRecorded = ((...args: Parameters<Setter<T>>) => {
+		const prev = value();
+		const result = setValue(...args);
+		if (!Object.is(prev, value())) record(prev);
+		return result;
+	}) as Setter<T>;
+
+	// Moves the value from one stack to the other.
+	const step = (from: "past" | "future") => {
+		const stack = history()[from];
+		if (!stack.length) return false;
+		const next = stack[stack.length - 1] as T;
+		const to = from === "past" ? "future" : "past";
+		batch(() => {
+			setHistory(
+				(h) =>
+					({
+						[from]: stack.slice(0, -1),
+						[to]: [...h[to], value()],
+					}) as HistoryState<T>,
+			);
+			setValue(() => next);
+		});
+		lastChange = 0;
+		return true;
+	};
+
+	const transaction = <R>(fn: () => R): R => {
+		if (depth) return fn();
+		const start = value();
+		depth++;
+		try {
+			return batch(fn);
+		} finally {
+			depth--;
+			if (!Object.is(start, value())) push(start);
+			lastChange = 0;
+		}
+	};
+
+	const clear = () => {
+		setHistory({ past: [], future: [] });
+		lastChange = 0;
+	};
+
+	return {
+		setValue: setRecorded,
+		history,
+		undo: () => step("past"),
+		redo: () => step("future"),
+		canUndo: () => history().past.length > 0,
+		canRedo: () => history().future.length > 0,
+		transaction,
+		clear,
+	};
+}
+
+// Dotted path of the deepest value holding all the differences between two values, "" for the root.
+function changedPath(prev: unknown, next: unknown): string {
+	const keys: string[] = [];
+	let a = prev as Record<string, unknown>;
+	let b = next as Record<string, unknown>;
+	while (typeof a === "object" && a && typeof b === "object" && b) {
+		const changed = [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(
+			(key) => !Object.is(a[key], b[key]),
+		);
+		const [key] = changed;
+		if (changed.length !== 1 || key === undefined) break;
+		keys.push(key);
+		a = a[key] as Record<string, unknown>;
+		b = b[key] as Record<string, unknown>;
+	}
+	return keys.join(".");
+}
@@ -4,3 +4,13 @@ export * from "./form";
 export * from "./control";
 export * from "./validations";
 export * from "./methods";
+export * from "./schema";
+export * from "./equal";
+export * from "./path";
+export * from "./transform";
+export * from "./persist";
+export * from "./history";
+export * from "./devtools";
+export * from "./serialize";
+export * from "./native";
+export * from "./errors";
@@ -1,27 +1,117 @@
-import type { ComponentProps } from "solid-js";
-import type { Control, FieldTypes } from "./control";
+import { type ComponentProps, batch, createEffect } from "solid-js";
+import type {
+	Control,
+	ControlState,
+	FieldTypes,
+	SetErrorOptions,
+	ValidationIssue,
+} from "./control";
 import type { FieldApi } from "./field";
+import { formatName } from "./serialize";
 
+// States of unmounted fields with keepState, by parent control and name, restored on their next mount.
+const unmountedStates = new WeakMap<
+	Control<FieldTypes>,
+	Map<PropertyKey, ControlState>
+>();
+// Names of fields whose value was removed by shouldUnregister, by parent control. Written back on their next mount.
+const removedNames = new WeakMap<Control<FieldTypes>, Set<PropertyKey>>();
+
+/**
+ * Adds a field to its parent. Writes back the initial value of a field removed by shouldUnregister, and restores
+ * the errors and touch state saved with keepState.
+ * @param parentControl - Control the field is registered in.
+ * @param name - Name of the field.
+ * @param childControl - Control of the field.
+ */
 export function registerField<T>(
 	parentControl: Control<T>,
 	name: keyof T,
 	childControl: Control<FieldTypes>,
 ): void {
+	if (removedNames.get(parentControl)?.delete(name)) {
+		childControl.reset(parentControl.initialValue()?.[name]);
+	}
+	const state = unmountedStates.get(parentControl)?.get(name);
+	if (state) {
+		unmountedStates.get(parentControl)?.delete(name);
+		childControl.restoreState(state);
+	}
 	parentControl.setFields((prev) => new Map(prev).set(name, childControl));
 }
 
+/**
+ * Removes a field from its parent. Depending on the field's shouldUnregister and keepState, also removes or
+ * restores its value and saves its errors and touch state for its next mount.
+ * @param parentControl - Control the field is registered in.
+ * @param name - Name of the field.
+ */
 export function unregisterField<T>(
 	parentControl: Control<T>,
 	name: keyof T,
 ): void {
+	const childControl = parentControl.fields().get(name);
 	parentControl.setFields((prev) => {
 		const map = new Map(prev);
 		map.delete(name);
 		return map;
 	});
+	if (!childControl) return;
+
+	if (childControl.keepState()) {
+		let states = unmountedStates.get(parentControl);
+		if (!states) {
+			states = new Map();
+			unmountedStates.set(parentControl, states);
+		}
+		states.set(name, childControl.saveState());
+	}
+
+	const policy = childControl.shouldUnregister();
+	if (!policy) return;
+	if (policy === true) {
+		let names = removedNames.get(parentControl);
+		if (!names) {
+			names = new Set();
+			removedNames.set(parentControl, names);
+		}
+		names.add(name);
+	}
+	parentControl.setValue((prev) => {
+		if (policy === "initial") {
+			return setKey(prev, name, childControl.initialValue());
+		}
+		if (Array.isArray(prev)) return setKey(prev, name, undefined);
+		const { [name]: _, ...rest } = prev;
+		return rest as T;
+	});
+}
+
+function setKey<T>(value: T, name: keyof T, next: unknown): T {
+	if (Array.isArray(value)) {
+		const array = [...value];
+		array[Number(name)] = next;
+		return array as T;
+	}
+	return { ...value, [name]: next };
 }
 
-export function getErrorList<T>(control: Control<T>): string[] {
+/** Options for getErrorList and getErrorMap. */
+export type ErrorListOptions = {
+	/** Return the structured issues (errors and warnings) instead of the error messages. */
+	issues: true;
+};
+
+export function getErrorList<T>(control: Control<T>): string[];
+export function getErrorList<T>(
+	control: Control<T>,
+	options: ErrorListOptions,
+): ValidationIssue[];
+export function getErrorList<T>(
+	control: Control<T>,
+	options?: ErrorListOptions,
+): string[] | ValidationIssue[] {
+	if (options?.issues) return getIssueList(control);
 	const list = [control.error()];
 	for (const [name, field] of control.fields()) {
 		list.push(...getErrorList(field));
@@ -30,13 +120,34 @@ export function getErrorList<T>(control: Control<T>): string[] {
 	return list.filter(Boolean);
 }
 
+function getIssueList<T>(control: Control<T>): ValidationIssue[] {
+	const list = [...control.issues()];
+	for (const field of control.fieldArray()) {
+		list.push(...getIssueList(field));
+	}
+	return list;
+}
+
 export function getErrorMap<T>(
 	control: Control<T>,
-): Record<keyof T, string> & Record<string, string> {
+): Record<keyof T, string> & Record<string, string>;
+export function getErrorMap<T>(
+	control: Control<T>,
+	options: ErrorListOptions,
+): Record<keyof T, ValidationIssue[]> & Record<string, ValidationIssue[]>;
+export function getErrorMap<T>(
+	control: Control<T>,
+	options?: ErrorListOptions,
+): Record<string, string | ValidationIssue[]> {
 	return Object.fromEntries(getErrorEntries(control, ""));
 
-	function getErrorEntries<T>(control: Control<T>, name: string) {
-		const list = [[name, control.error()]];
+	function getErrorEntries<T>(
+		control: Control<T>,
+		name: string,
+	): [string, string | ValidationIssue[]][] {
+		const list: [string, string | ValidationIssue[]][] = [
+			[name, options?.issues ? control.issues() : control.error()],
+		];
 		for (const [fieldName, field] of control.fields()) {
 			list.push(
 				...getErrorEntries(
@@ -49,15 +160,354 @@ export function getErrorMap<T>(
 	}
 }
 
+/**
+ * Returns the value of a control without the values of its disabled fields. Disabled array items are removed.
+ * @param control - Control to read, usually the form control.
+ * @returns Value without disabled fields.
+ */
+export function getEnabledValue<T>(control: Control<T>): T {
+	const value = control.value();
+	const fields = control.fields();
+	if (!fields.size || value === null || typeof value !== "object") return value;
+	if (Array.isArray(value)) {
+		return value.flatMap((item, i) => {
+			const field = fields.get(i as keyof T);
+			if (!field) return [item];
+			return field.isExcluded() ? [] : [getEnabledValue(field)];
+		}) as T;
+	}
+	const result = { ...value } as Record<PropertyKey, unknown>;
+	for (const [name, field] of fields) {
+		if (field.isExcluded()) delete result[name];
+		else result[name] = getEnabledValue(field);
+	}
+	return result as T;
+}
+
+/**
+ * Sends each entry of an error map (like a server response or getErrorMap) to the control at its dotted path.
+ * Empty messages are ignored.
+ * @param control - Control the paths are relative to.
+ * @param errors - Map of dotted paths to messages. "" targets the control itself.
+ * @param options - Options passed to setError.
+ */
+export function setErrors<T>(
+	control: Control<T>,
+	errors: Record<string, string>,
+	options?: SetErrorOptions,
+): void {
+	batch(() => {
+		for (const [path, message] of Object.entries(errors)) {
+			if (message) control.setError(path, message, options);
+		}
+	});
+}
+
+/**
+ * Props shared by every input helper: ref, name, blur tracking, id, disabled and read-only state, and the aria attributes linking the error.
+ * @param field - Field to bind.
+ * @param id - Id of the element. Defaults to the id of the field.
+ * @returns Props for any form element.
+ */
+function getBaseProps<TParent, TKey extends keyof TParent, TValue>(
+	field: FieldApi<TParent, TKey, TValue>,
+	id = field.id,
+) {
+	const errorId = field.isInvalid() ? field.errorId : undefined;
+	return {
+		onBlur: () => field.onBlur(),
+		ref: field.ref,
+		name: getFieldName(field),
+		id,
+		disabled: field.isDisabled(),
+		readOnly: field.isReadOnly(),
+		"aria-invalid": field.isInvalid(),
+		"aria-describedby": errorId,
+		"aria-errormessage": errorId,
+	};
+}
+
+// Full path of a field in the "index" style of toFormData, e.g. address.lines[0], so the FormData of the form
+// element can be read with fromFormData.
+function getFieldName<TParent, TKey extends keyof TParent, TValue>(
+	field: FieldApi<TParent, TKey, TValue>,
+): string {
+	const keys: string[] = [];
+	for (
+		let control: Control<FieldTypes> | undefined = field.control;
+		control?.parent;
+		control = control.parent
+	) {
+		keys.unshift(String(control.pathKey()));
+	}
+	return formatName(keys);
+}
+
+// Id of one option of a checkbox group or radio group, derived from the id of the field.
+function optionId(id: string, optionValue: unknown): string {
+	return `${id}-${String(optionValue).replace(/\s+/g, "-")}`;
+}
+
+/**
+ * Binds a text input to the raw string of a field. Uses the parse and format of the field if set.
+ * @param field - Field to bind.
+ * @returns Props for an input element.
+ */
 export function getInputProps<
 	TParent,
 	TKey extends keyof TParent = keyof TParent,
->(field: FieldApi<TParent, TKey, string>): ComponentProps<"input"> {
+	TValue = string,
+>(field: FieldApi<TParent, TKey, TValue>): ComponentProps<"input"> {
 	return {
-		onInput: (e) => field.setValue(e.target.value),
-		onBlur: (e) => field.setTouchCount((v) => v + 1),
-		ref: field.ref,
-		value: field.value(),
-		name: String(field.name),
+		...getBaseProps(field),
+		onInput: (e) => field.setRaw(e.target.value),
+		value: field.raw(),
+	};
+}
+
+/**
+ * Binds a textarea to the raw string of a field. Uses the parse and format of the field if set.
+ * @param field - Field to bind.
+ * @returns Props for a textarea element.
+ */
+export function getTextareaProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+	TValue = string,
+>(field: FieldApi<TParent, TKey, TValue>): ComponentProps<"textarea"> {
+	return {
+		...getBaseProps(field),
+		onInput: (e) => field.setRaw(e.target.value),
+		value: field.raw(),
+	};
+}
+
+/**
+ * Binds a checkbox to a boolean field, or to the membership of optionValue in an array field for checkbox groups.
+ * @param field - Field to bind.
+ * @param optionValue - Value added to or removed from the array when checked or unchecked.
+ * @returns Props for an input element of type checkbox.
+ */
+export function getCheckboxProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+>(field: FieldApi<TParent, TKey, boolean>): ComponentProps<"input">;
+export function getCheckboxProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+	TOption = unknown,
+>(
+	field: FieldApi<TParent, TKey, TOption[]>,
+	optionValue: TOption,
+): ComponentProps<"input">;
+export function getCheckboxProps<TParent, TKey extends keyof TParent, TOption>(
+	field: FieldApi<TParent, TKey, boolean> | FieldApi<TParent, TKey, TOption[]>,
+	...option: [] | [TOption]
+): ComponentProps<"input"> {
+	if (option.length === 0) {
+		const checkbox = field as FieldApi<TParent, TKey, boolean>;
+		return {
+			...getBaseProps(checkbox),
+			type: "checkbox",
+			checked: Boolean(checkbox.value()),
+			onChange: (e) => checkbox.setValue(e.target.checked),
+		};
+	}
+
+	const [optionValue] = option;
+	const group = field as FieldApi<TParent, TKey, TOption[]>;
+	const values = () => group.value() ?? [];
+	return {
+		...getBaseProps(group, optionId(group.id, optionValue)),
+		type: "checkbox",
+		value: String(optionValue),
+		checked: values().includes(optionValue),
+		onChange: (e) =>
+			group.setValue(
+				e.target.checked
+					? [...values().filter((v) => v !== optionValue), optionValue]
+					: values().filter((v) => v !== optionValue),
+			),
+	};
+}
+
+/**
+ * Binds a radio button to a field. The field is set to optionValue when the radio is checked.
+ * @param field - Field to bind.
+ * @param optionValue - Value of this radio button.
+ * @returns Props for an input element of type radio.
+ */
+export function getRadioProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+	TValue = TParent[TKey],
+>(
+	field: FieldApi<TParent, TKey, TValue>,
+	optionValue: TValue,
+): ComponentProps<"input"> {
+	return {
+		...getBaseProps(field, optionId(field.id, optionValue)),
+		type: "radio",
+		value: String(optionValue),
+		checked: field.value() === optionValue,
+		onChange: (e) => e.target.checked && field.setValue(() => optionValue),
+	};
+}
+
+/**
+ * Binds a select to a string field, or to a string array field when multiple is true.
+ * @param field - Field to bind.
+ * @param options - Set multiple to bind a multi-select.
+ * @returns Props for a select element.
+ */
+export function getSelectProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+>(field: FieldApi<TParent, TKey, string>): ComponentProps<"select">;
+export function getSelectProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+>(
+	field: FieldApi<TParent, TKey, string[]>,
+	options: { multiple: true },
+): ComponentProps<"select">;
+export function getSelectProps<TParent, TKey extends keyof TParent>(
+	field: FieldApi<TParent, TKey, string> | FieldApi<TParent, TKey, string[]>,
+	options?: { multiple: true },
+): ComponentProps<"select"> {
+	if (!options?.multiple) {
+		const select = field as FieldApi<TParent, TKey, string>;
+		return {
+			...getBaseProps(select),
+			onChange: (e) => select.setValue(e.target.value),
+			value: select.value(),
+		};
+	}
+
+	const multiSelect = field as FieldApi<TParent, TKey, string[]>;
+	return {
+		...getBaseProps(multiSelect),
+		multiple: true,
+		onChange: (e) =>
+			multiSelect.setValue(
+				Array.from(e.target.selectedOptions, (option) => option.value),
+			),
+		// Multi-selects have no value attribute, so the selected options follow the field.
+		ref: (el) => {
+			multiSelect.ref(el);
+			createEffect(() => {
+				const selected = multiSelect.value() ?? [];
+				for (const option of el.options) {
+					option.selected = selected.includes(option.value);
+				}
+			});
+		},
+	};
+}
+
+/**
+ * Binds a number input to a number field using valueAsNumber. An empty or invalid input sets the field to undefined.
+ * @param field - Field to bind.
+ * @returns Props for an input element of type number.
+ */
+export function getNumberProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+	TValue extends number | null | undefined = number | undefined,
+>(field: FieldApi<TParent, TKey, TValue>): ComponentProps<"input"> {
+	const value = field.value();
+	return {
+		...getBaseProps(field),
+		type: "number",
+		value:
+			value === null || value === undefined || Number.isNaN(value)
+				? ""
+				: String(value),
+		onInput: (e) => {
+			const number = e.target.valueAsNumber;
+			field.setValue(
+				() => (Number.isNaN(number) ? undefined : number) as TValue,
+			);
+		},
+	};
+}
+
+/**
+ * Binds a date input to a Date field. "date" inputs use UTC dates like valueAsDate. "datetime-local" inputs use local time.
+ * An empty input sets the field to undefined.
+ * @param field - Field to bind.
+ * @param options - Type of the input. Defaults to "date".
+ * @returns Props for an input element of type date or datetime-local.
+ */
+export function getDateProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+	TValue extends Date | null | undefined = Date | undefined,
+>(
+	field: FieldApi<TParent, TKey, TValue>,
+	options: { type?: "date" | "datetime-local" } = {},
+): ComponentProps<"input"> {
+	const type = options.type ?? "date";
+	return {
+		...getBaseProps(field),
+		type,
+		value: formatDate(field.value(), type),
+		onInput: (e) => {
+			const date = parseDate(e.target.value, type);
+			field.setValue(() => date as TValue);
+		},
+	};
+}
+
+function formatDate(
+	date: Date | null | undefined,
+	type: "date" | "datetime-local",
+): string {
+	if (!date || Number.isNaN(date.getTime())) return "";
+	if (type === "date") return date.toISOString().slice(0, 10);
+	const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+	return local.toISOString().slice(0, 16);
+}
+
+function parseDate(
+	value: string,
+	type: "date" | "datetime-local",
+): Date | undefined {
+	if (!value) return undefined;
+	const date = new Date(type === "date" ? `${value}T00:00:00Z` : value);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Binds a file input to a FileList field, or to a File[] field when asArray is true.
+ * The input is cleared when the field is emptied, e.g. by reset.
+ * @param field - Field to bind.
+ * @param options - Set asArray to store a File[] instead of a FileList.
+ * @returns Props for an input element of type file.
+ */
+export function getFileProps<
+	TParent,
+	TKey extends keyof TParent = keyof TParent,
+	TValue extends FileList | File[] | null | undefined = FileList | undefined,
+>(
+	field: FieldApi<TParent, TKey, TValue>,
+	options: { asArray?: boolean } = {},
+): ComponentProps<"input"> {
+	return {
+		...getBaseProps(field),
+		type: "file",
+		onChange: (e) => {
+			const files = e.target.files;
+			field.setValue(
+				() => (options.asArray ? Array.from(files ?? []) : files) as TValue,
+			);
+		},
+		// File inputs can only be cleared, so clear it when the field is emptied.
+		ref: (el) => {
+			field.ref(el);
+			createEffect(() => {
+				if (!field.value()?.length) el.value = "";
+			});
+		},
 	};
 }
@@ -0,0 +1,81 @@
+import type { ValidationIssue } from "./control";
+
+/** Element supporting the Constraint Validation API, e.g. input, select and textarea. */
+export type ValidatableElement = HTMLElement & {
+	validity: ValidityState;
+	validationMessage: string;
+	setCustomValidity: (message: string) => void;
+};
+
+/** Native constraint failures of ValidityState read as issues. */
+export type NativeValidityKey =
+	| "valueMissing"
+	| "typeMismatch"
+	| "patternMismatch"
+	| "tooLong"
+	| "tooShort"
+	| "rangeUnderflow"
+	| "rangeOverflow"
+	| "stepMismatch"
+	| "badInput";
+
+/** Messages for native constraint failures. The browser's validationMessage is used for missing ones. */
+export type NativeValidationMessages = Partial<
+	Record<NativeValidityKey, string | ((element: ValidatableElement) => string)>
+>;
+
+/** Enables native constraint validation, optionally with messages. */
+export type NativeValidation = boolean | NativeValidationMessages;
+
+const validityKeys: NativeValidityKey[] = [
+	"valueMissing",
+	"badInput",
+	"typeMismatch",
+	"patternMismatch",
+	"tooLong",
+	"tooShort",
+	"rangeUnderflow",
+	"rangeOverflow",
+	"stepMismatch",
+];
+
+/**
+ * Checks whether an element supports the Constraint Validation API.
+ * @param element - Element to check, e.g. the ref of a control.
+ * @returns True if the element has validity and setCustomValidity.
+ */
+export function isValidatableElement(
+	element: unknown,
+): element is ValidatableElement {
+	return (
+		typeof element === "object" &&
+		element !== null &&
+		"validity" in element &&
+		"setCustomValidity" in element
+	);
+}
+
+/**
+ * Reads the native constraint failures of an element, ignoring custom validity set by the library.
+ * @param element - Element to read.
+ * @param messages - Messages by failure. Defaults to the browser's validationMessage.
+ * @returns Issue for the first failure, with its ValidityState key as code.
+ */
+export function getNativeIssues(
+	element: ValidatableElement,
+	messages: NativeValidationMessages = {},
+): ValidationIssue[] {
+	element.setCustomValidity("");
+	const code = validityKeys.find((key) => element.validity[key]);
+	if (!code) return [];
+	const message = messages[code];
+	return [
+		{
+			code,
+			message:
+				typeof message === "function"
+					? message(element)
+					: (message ?? element.validationMessage) || code,
+		},
+	];
+}
@@ -0,0 +1,160 @@
+import type { Control, FieldTypes } from "./control";
+import { isPlainObject } from "./equal";
+
+type Leaf =
+	| string
+	| number
+	| boolean
+	| bigint
+	| symbol
+	| null
+	| undefined
+	| Date
+	| RegExp
+	| Blob
+	| FileList
+	| ((...args: never[]) => unknown); // Any function is a leaf.
+
+// Limits recursion for recursive types.
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Union of the dotted paths to every nested value of T, like "address.lines.0".
+ * @template T - The type of the root value.
+ */
+export type Path<T, D extends number = 10> = [D] extends [never]
+	? never
+	: T extends Leaf
+		? never
+		: T extends ReadonlyArray<infer TItem>
+			? `${number}` | `${number}.${Path<TItem, Depth[D]>}`
+			: {
+					[K in keyof T & (string | number)]:
+						| `${K}`
+						| `${K}.${Path<T[K], Depth[D]>}`;
+				}[keyof T & (string | number)];
+
+/**
+ * Type of the value at a dotted path of T.
+ * @template T - The type of the root value.
+ * @template P - The dotted path.
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer R}`
+	? PathValue<KeyValue<T, K>, R>
+	: KeyValue<T, P>;
+
+type KeyValue<T, K extends string> = T extends ReadonlyArray<infer TItem>
+	? K extends `${number}`
+		? TItem
+		: never
+	: K extends keyof T
+		? T[K]
+		: never;
+
+/** Segment of a path. Either a key or a Standard Schema path segment object. */
+export type PathSegment = PropertyKey | { readonly key: PropertyKey };
+
+/** Path to a nested value. Either a dotted string like "address.lines.0" or an array of segments. Empty path targets the root. */
+export type PathInput = string | ReadonlyArray<PathSegment>;
+
+/**
+ * Converts a path to a list of string keys.
+ * @param path - Dotted string or array of path segments.
+ * @returns List of keys.
+ */
+export function toPathKeys(path: PathInput | undefined): string[] {
+	if (path === undefined || path === "") return [];
+	if (typeof path === "string") return path.split(".");
+	return path.map((segment) =>
+		String(typeof segment === "object" ? segment.key : segment),
+	);
+}
+
+/**
+ * Reads the value at a path.
+ * @param value - Root value.
+ * @param path - Path to the nested value.
+ * @returns The nested value, or undefined if a value along the path is missing.
+ */
+export function getPathValue(value: unknown, path: PathInput): unknown {
+	let current = value;
+	for (const key of toPathKeys(path)) {
+		if (current === null || current === undefined) return undefined;
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+/**
+ * Returns a copy of the value with the value at a path replaced. Missing objects and arrays along the path are created.
+ * @template T - The type of the root value.
+ * @param value - Root value.
+ * @param path - Path to the nested value.
+ * @param next - Value to set at the path.
+ * @returns The updated root value.
+ */
+export function setPathValue<T>(value: T, path: PathInput, next: unknown): T {
+	return setKeys(value, toPathKeys(path), next) as T;
+}
+
+function setKeys(value: unknown, keys: string[], next: unknown): unknown {
+	const [key, ...rest] = keys;
+	if (key === undefined) return next;
+	const isIndex = /^\d+$/.test(key);
+	if (Array.isArray(value) || (value == null && isIndex)) {
+		const array = Array.isArray(value) ? [...value] : [];
+		array[Number(key)] = setKeys(array[Number(key)], rest, next);
+		return array;
+	}
+	const object = isPlainObject(value) ? value : {};
+	return {
+		...object,
+		[key]: setKeys((object as Record<string, unknown>)[key], rest, next),
+	};
+}
+
+/**
+ * Finds the mounted control matching a path by walking the fields maps.
+ * @param control - Control the path is relative to.
+ * @param path - Path to the nested control.
+ * @returns The matching control, or undefined if a field along the path is not mounted.
+ */
+export function findField<T>(
+	control: Control<T>,
+	path: PathInput,
+): Control<FieldTypes> | undefined {
+	let current: Control<FieldTypes> | undefined = control;
+	for (const key of toPathKeys(path)) {
+		current = getChild(current, key);
+		if (!current) return undefined;
+	}
+	return current;
+}
+
+/**
+ * Finds the closest mounted control matching a path by walking the fields maps.
+ * @param control - Control the path is relative to.
+ * @param path - Path to the nested control.
+ * @returns The matching control, or its closest mounted ancestor.
+ */
+export function findClosestField<T>(
+	control: Control<T>,
+	path: PathInput,
+): Control<FieldTypes> {
+	let current: Control<FieldTypes> = control;
+	for (const key of toPathKeys(path)) {
+		const next = getChild(current, key);
+		if (!next) break;
+		current = next;
+	}
+	return current;
+}
+
+function getChild(
+	control: Control<FieldTypes>,
+	key: string,
+): Control<FieldTypes> | undefined {
+	for (const [name, field] of control.fields()) {
+		if (String(name) === key) return field;
+	}
+}
@@ -0,0 +1,186 @@
+import { createEffect, on, onCleanup } from "solid-js";
+import { type Control, type Path, getPathValue, setPathValue } from "./";
+import { isPlainObject } from "./equal";
+
+/**
+ * Storage of drafts. localStorage and sessionStorage can be used directly. Methods can be async.
+ */
+export type DraftStorage = {
+	getItem: (key: string) => string | null | Promise<string | null>;
+	setItem: (key: string, value: string) => void | Promise<void>;
+	removeItem: (key: string) => void | Promise<void>;
+};
+
+/**
+ * Options to persist the draft of a form value.
+ * @template TValue - The type of the form value.
+ */
+export type PersistOptions<TValue> = {
+	key: string; // Key of the draft in the storage.
+	storage?: DraftStorage; // Storage of the draft. Defaults to localStorage when available.
+	version?: number; // Version of the draft. Drafts of other versions are migrated, or dropped without migrate. Defaults to 0.
+	migrate?: (draft: unknown, version: number) => TValue; // Converts a draft saved with an older version to the current value.
+	include?: Path<TValue>[]; // Paths to persist. Defaults to the whole value.
+	exclude?: Path<TValue>[]; // Paths never persisted, e.g. passwords.
+	debounce?: number; // Milliseconds to wait after a change before saving. Defaults to 300.
+};
+
+/** Saved draft with the version it was saved with. */
+type StoredDraft = {
+	version: number;
+	value: unknown;
+};
+
+/**
+ * Creates a storage keeping drafts in memory. Useful for tests and SSR.
+ * @returns DraftStorage backed by a Map.
+ */
+export function memoryStorage(): DraftStorage {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+		removeItem: (key) => {
+			items.delete(key);
+		},
+	};
+}
+
+/**
+ * Persists the value of a control to a storage and restores it on creation.
+ * The restored draft only changes the value, so it is dirty against the initial value.
+ * Dates are saved as ISO strings and read back as Dates where the initial value has a Date.
+ * Storage failures are ignored: the form keeps working without drafts.
+ * @template TValue - The type of the form value.
+ * @param control - Control of the form.
+ * @param options - Options of the draft.
+ * @param onRestore - Called once a draft has been applied, also when the storage is async.
+ * @returns clearDraft to remove the draft, e.g. after a successful submit.
+ */
+export function createPersist<TValue>(
+	control: Control<TValue>,
+	options: PersistOptions<TValue>,
+	onRestore?: () => void,
+) {
+	const storage =
+		options.storage ??
+		(typeof localStorage === "undefined" ? undefined : localStorage);
+	const version = options.version ?? 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	// Changes made before an async draft is restored are not saved over it.
+	let restored = false;
+
+	// Keeps the included paths and blanks the excluded ones.
+	const toDraft = (value: TValue): unknown => {
+		let draft: unknown = value;
+		if (options.include) {
+			draft = {};
+			for (const path of options.include)
+				draft = setPathValue(draft, path, getPathValue(value, path));
+		}
+		for (const path of options.exclude ?? [])
+			if (getPathValue(draft, path) !== undefined)
+				draft = setPathValue(draft, path, undefined);
+		return draft;
+	};
+
+	// Applies the persisted paths of a draft over the initial value.
+	const fromDraft = (draft: unknown): TValue => {
+		const initialValue = control.initialValue();
+		const revived = revive(draft, initialValue);
+		let value = revived as TValue;
+		if (options.include) {
+			value = initialValue;
+			for (const path of options.include) {
+				const next = getPathValue(revived, path);
+				if (next !== undefined) value = setPathValue(value, path, next);
+			}
+		}
+		for (const path of options.exclude ?? [])
+			value = setPathValue(value, path, getPathValue(initialValue, path));
+		return value;
+	};
+
+	const restore = (raw: string | null) => {
+		restored = true;
+		if (raw === null) return;
+		let stored: StoredDraft;
+		try {
+			stored = JSON.parse(raw);
+		} catch {
+			return; // Ignore corrupted drafts.
+		}
+		if (stored.version !== version && !options.migrate) return;
+		const draft =
+			stored.version === version
+				? stored.value
+				: options.migrate?.(stored.value, stored.version);
+		control.setValue(() => fromDraft(draft));
+		onRestore?.();
+	};
+
+	const save = (value: TValue) => {
+		if (!storage) return;
+		try {
+			const stored: StoredDraft = { version, value: toDraft(value) };
+			// A pristine value has nothing to restore.
+			const result = control.isPristine()
+				? storage.removeItem(options.key)
+				: storage.setItem(options.key, JSON.stringify(stored));
+			if (result instanceof Promise) result.catch(() => {});
+		} catch {
+			// Ignore full or unavailable storages.
+		}
+	};
+
+	if (storage) {
+		let raw: ReturnType<DraftStorage["getItem"]> = null;
+		try {
+			raw = storage.getItem(options.key);
+		} catch {
+			// Ignore unavailable storages, e.g. localStorage blocked by privacy settings.
+		}
+		if (raw instanceof Promise) raw.then(restore, () => restore(null));
+		else restore(raw);
+	}
+
+	createEffect(
+		on(
+			control.value,
+			(value) => {
+				clearTimeout(timer);
+				if (!restored) return;
+				timer = setTimeout(() => save(value), options.debounce ?? 300);
+			},
+			{ defer: true },
+		),
+	);
+
+	onCleanup(() => clearTimeout(timer));
+
+	// Removes the draft and cancels a pending save.
+	const clearDraft = async () => {
+		clearTimeout(timer);
+		await storage?.removeItem(options.key);
+	};
+
+	return { clearDraft };
+}
+
+// Converts the ISO strings of a parsed draft back to Dates where the shape has a Date.
+function revive(value: unknown, shape: unknown): unknown {
+	if (shape instanceof Date)
+		return typeof value === "string" ? new Date(value) : value;
+	if (Array.isArray(value) && Array.isArray(shape))
+		return value.map((item, i) => revive(item, shape[i] ?? shape[0]));
+	if (isPlainObject(value) && isPlainObject(shape))
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				key,
+				revive(item, (shape as Record<string, unknown>)[key]),
+			]),
+		);
+	return value;
+}
@@ -0,0 +1,145 @@
+import { batch } from "solid-js";
+import type { Control, FieldTypes } from "./control";
+import { type PathInput, findClosestField } from "./path";
+
+/**
+ * Minimal copy of the Standard Schema v1 interface implemented by zod, valibot, arktype and others.
+ * @see https://github.com/standard-schema/standard-schema
+ * @template TInput - The type of value accepted by the schema.
+ * @template TOutput - The type of value produced by the schema.
+ */
+export type StandardSchemaV1<TInput = unknown, TOutput = TInput> = {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaResult<TOutput> | Promise<StandardSchemaResult<TOutput>>;
+		readonly types?: { readonly input: TInput; readonly output: TOutput };
+	};
+};
+
+/**
+ * Result of a Standard Schema validation.
+ * @template TOutput - The type of value produced by the schema.
+ */
+export type StandardSchemaResult<TOutput> =
+	| { readonly value: TOutput; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/** Issue reported by a Standard Schema validation. */
+export type StandardSchemaIssue = {
+	readonly message: string;
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+/**
+ * Issue targeting a nested control.
+ * The path can be an array of keys or a dotted string like "address.lines.0". Empty path targets the root.
+ */
+export type SchemaIssue = {
+	message: string;
+	path?: PathInput;
+};
+
+/**
+ * Plain function schema returning all issues for a value.
+ * @template T - The type of value being validated.
+ */
+export type SchemaValidator<T> = (
+	value: T,
+) => SchemaIssue[] | Promise<SchemaIssue[]>;
+
+/**
+ * Schema accepted by createForm. Either a Standard Schema (zod, valibot, arktype...) or a plain function.
+ * @template T - The type of value being validated.
+ */
+export type Schema<T> = StandardSchemaV1<T, unknown> | SchemaValidator<T>;
+
+/**
+ * Checks if a value implements the Standard Schema interface.
+ * @param schema - Value to check.
+ * @returns True if the value is a Standard Schema.
+ */
+export function isStandardSchema<T>(
+	schema: unknown,
+): schema is StandardSchemaV1<T, unknown> {
+	return (
+		(typeof schema === "object" || typeof schema === "function") &&
+		schema !== null &&
+		"~standard" in schema
+	);
+}
+
+/**
+ * Adapts a Standard Schema to a plain function schema.
+ * @template T - The type of value being validated.
+ * @param schema - Standard Schema to adapt.
+ * @returns SchemaValidator returning the issues of the schema.
+ */
+export function standardSchema<T>(
+	schema: StandardSchemaV1<T, unknown>,
+): SchemaValidator<T> {
+	return async (value) => {
+		const result = await schema["~standard"].validate(value);
+		return (result.issues ?? []).map((issue) => ({
+			message: issue.message,
+			path: issue.path ?? [],
+		}));
+	};
+}
+
+/**
+ * Adapts a function returning a map of dotted paths to messages (like getErrorMap) to a plain function schema.
+ * Empty messages are ignored.
+ * @template T - The type of value being validated.
+ * @param fn - Function returning the error map for a value.
+ * @returns SchemaValidator returning an issue for each entry of the map.
+ */
+export function functionSchema<T>(
+	fn: (value: T) => Record<string, string> | Promise<Record<string, string>>,
+): SchemaValidator<T> {
+	return async (value) =>
+		Object.entries(await fn(value))
+			.filter(([, message]) => Boolean(message))
+			.map(([path, message]) => ({ path, message }));
+}
+
+/**
+ * Normalizes any accepted schema to a plain function schema.
+ * @template T - The type of value being validated.
+ * @param schema - Standard Schema or SchemaValidator.
+ * @returns SchemaValidator.
+ */
+export function toSchemaValidator<T>(schema: Schema<T>): SchemaValidator<T> {
+	return isStandardSchema<T>(schema) ? standardSchema(schema) : schema;
+}
+
+/**
+ * Clears previous schema errors in the control tree and sends each issue to the matching control by walking the fields maps.
+ * Issues targeting a field that is not mounted go to the closest mounted ancestor. The first issue for a control wins.
+ * Issues targeting a disabled control are ignored.
+ * @template T - The type of value controlled by the root control.
+ * @param control - Root control the schema ran on.
+ * @param issues - Issues returned by the schema.
+ */
+export function applySchemaIssues<T>(
+	control: Control<T>,
+	issues: SchemaIssue[],
+): void {
+	batch(() => {
+		clearSchemaErrors(control);
+		const assigned = new Set<Control<FieldTypes>>();
+		for (const issue of issues) {
+			const target = findClosestField(control, issue.path ?? "");
+			if (assigned.has(target) || target.isExcluded()) continue;
+			assigned.add(target);
+			target.setSchemaError(issue.message);
+		}
+	});
+}
+
+function clearSchemaErrors<T>(control: Control<T>): void {
+	control.setSchemaError("");
+	for (const field of control.fieldArray()) clearSchemaErrors(field);
+}
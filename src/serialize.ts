@@ -0,0 +1,187 @@
+import { isPlainObject } from "./equal";
+
+/**
+ * Naming of nested values:
+ * - "dot": address.lines.0, the paths of getErrorMap
+ * - "index": address.lines[0]
+ * - "bracket": address[lines][0]
+ */
+export type NameStyle = "dot" | "index" | "bracket";
+
+/** Options for toFormData and toSearchParams. */
+export type SerializeOptions = {
+	style?: NameStyle; // Naming of nested values. Defaults to "index".
+};
+
+/** Entries with the same name prefix, as a tree. */
+type EntryNode = {
+	values: (string | File)[];
+	children: Map<string, EntryNode>;
+};
+
+/**
+ * Converts a value to FormData with nested names. Dates are sent as ISO strings and files as they are.
+ * @param value - Value to convert, e.g. the form value.
+ * @param options - Naming of nested values.
+ * @returns FormData with an entry per leaf value.
+ */
+export function toFormData(
+	value: object,
+	options: SerializeOptions = {},
+): FormData {
+	const formData = new FormData();
+	appendEntries(value, [], options.style ?? "index", (name, entry) =>
+		formData.append(name, entry),
+	);
+	return formData;
+}
+
+/**
+ * Converts a value to URLSearchParams with nested names. Files are skipped.
+ * @param value - Value to convert, e.g. the value of a filter form.
+ * @param options - Naming of nested values.
+ * @returns URLSearchParams with an entry per leaf value.
+ */
+export function toSearchParams(
+	value: object,
+	options: SerializeOptions = {},
+): URLSearchParams {
+	const params = new URLSearchParams();
+	appendEntries(value, [], options.style ?? "index", (name, entry) => {
+		if (typeof entry === "string") params.append(name, entry);
+	});
+	return params;
+}
+
+/**
+ * Reads a value from FormData, coercing each entry to the type of the same path in shape.
+ * Accepts all name styles and repeated names for arrays. Missing arrays are empty, missing booleans false
+ * and other missing entries keep the value of shape.
+ * @template T - The type of the value.
+ * @param formData - FormData to read, e.g. of a submitted form.
+ * @param shape - Value giving the structure and types, e.g. the initial value of the form.
+ * @returns Value with the structure of shape.
+ */
+export function fromFormData<T>(formData: FormData, shape: T): T {
+	return coerce(shape, toEntryTree(formData)) as T;
+}
+
+/**
+ * Reads a value from URLSearchParams, coercing each entry to the type of the same path in shape.
+ * Accepts all name styles and repeated names for arrays. Missing arrays are empty, missing booleans false
+ * and other missing entries keep the value of shape.
+ * @template T - The type of the value.
+ * @param params - URLSearchParams to read, e.g. of the location.
+ * @param shape - Value giving the structure and types, e.g. the initial value of the form.
+ * @returns Value with the structure of shape.
+ */
+export function fromSearchParams<T>(params: URLSearchParams, shape: T): T {
+	return coerce(shape, toEntryTree(params)) as T;
+}
+
+/**
+ * Formats the keys of a path as a name in the given style, like the names of toFormData.
+ * @param keys - Keys of the path, e.g. ["address", "lines", "0"].
+ * @param style - Naming of nested values.
+ * @returns Name of the path, e.g. address.lines[0] in the "index" style.
+ */
+export function formatName(keys: string[], style: NameStyle = "index"): string {
+	if (style === "dot") return keys.join(".");
+	return keys
+		.map((key, i) => {
+			if (i === 0) return key;
+			if (style === "bracket" || /^\d+$/.test(key)) return `[${key}]`;
+			return `.${key}`;
+		})
+		.join("");
+}
+
+function appendEntries(
+	value: unknown,
+	keys: string[],
+	style: NameStyle,
+	append: (name: string, entry: string | Blob) => void,
+): void {
+	if (value === undefined) return;
+	if (typeof FileList !== "undefined" && value instanceof FileList) {
+		for (const file of value) append(formatName(keys, style), file);
+	} else if (typeof Blob !== "undefined" && value instanceof Blob) {
+		append(formatName(keys, style), value);
+	} else if (value instanceof Date) {
+		append(formatName(keys, style), value.toISOString());
+	} else if (Array.isArray(value)) {
+		value.forEach((item, i) => {
+			appendEntries(item, [...keys, String(i)], style, append);
+		});
+	} else if (isPlainObject(value)) {
+		for (const [key, item] of Object.entries(value)) {
+			appendEntries(item, [...keys, key], style, append);
+		}
+	} else {
+		append(formatName(keys, style), value === null ? "" : String(value));
+	}
+}
+
+// Groups entries by the keys of their names, e.g. a.b[0] and a[b][0] both go to a > b > 0.
+function toEntryTree(
+	entries: Iterable<[string, FormDataEntryValue]>,
+): EntryNode {
+	const root: EntryNode = { values: [], children: new Map() };
+	for (const [name, entry] of entries) {
+		let node = root;
+		for (const key of name.split(/[.[\]]+/).filter(Boolean)) {
+			let child = node.children.get(key);
+			if (!child) {
+				child = { values: [], children: new Map() };
+				node.children.set(key, child);
+			}
+			node = child;
+		}
+		node.values.push(entry);
+	}
+	return root;
+}
+
+function coerce(shape: unknown, node: EntryNode | undefined): unknown {
+	if (isPlainObject(shape)) {
+		const result: Record<string, unknown> = { ...shape };
+		for (const [key, value] of Object.entries(shape)) {
+			result[key] = coerce(value, node?.children.get(key));
+		}
+		return result;
+	}
+	if (!node) {
+		// Empty arrays and unchecked checkboxes send no entries.
+		if (Array.isArray(shape)) return [];
+		if (typeof shape === "boolean") return false;
+		return shape;
+	}
+	if (Array.isArray(shape)) {
+		// Item type comes from the first item of the shape.
+		const item = shape[0];
+		const indexed = [...node.children.entries()]
+			.filter(([key]) => /^\d+$/.test(key))
+			.sort(([a], [b]) => Number(a) - Number(b))
+			.map(([, child]) => coerce(item, child));
+		const repeated = node.values.map((value) =>
+			coerce(item, { values: [value], children: new Map() }),
+		);
+		return [...repeated, ...indexed];
+	}
+	if ((shape === undefined || shape === null) && node.children.size) {
+		// Without a shape, numeric keys make an array and other keys an object of strings.
+		const children = [...node.children.entries()];
+		if (children.every(([key]) => /^\d+$/.test(key))) return coerce([], node);
+		return Object.fromEntries(
+			children.map(([key, child]) => [key, coerce(undefined, child)]),
+		);
+	}
+	const value = node.values[node.values.length - 1];
+	if (value === undefined) return shape;
+	if (typeof value !== "string") return value; // Files are kept as they are.
+	if (typeof shape === "number")
+		return value === "" ? undefined : Number(value);
+	if (typeof shape === "boolean") return value === "true" || value === "on";
+	if (shape instanceof Date) return new Date(value);
+	return value;
+}
@@ -0,0 +1,94 @@
+import { type Accessor, createEffect, createSignal, on } from "solid-js";
+import type { Control, Validate } from "./control";
+
+/**
+ * Props converting between the raw string of an input and the typed value of a field.
+ * @template T - The type of value stored in the field.
+ */
+export type TransformProps<T> = {
+	/** Converts the raw string to the field value. Throw to report a parse failure as a field error. */
+	parse?: (raw: string) => T;
+
+	/** Converts the field value to the raw string shown in the input. */
+	format?: (value: T) => string;
+};
+
+/** API to bind an input to the raw string of a field. */
+export type TransformApi = {
+	/** Accessor for the raw string to show in the input. The text typed by the user while editing, otherwise the formatted value. */
+	raw: Accessor<string>;
+
+	/** Parses the raw string and sets the value. Keeps the raw string and sets a parse error if parsing fails. */
+	setRaw: (raw: string) => void;
+
+	/** Accessor for the error of the last parse. Empty if it succeeded. */
+	parseError: Accessor<string>;
+};
+
+/**
+ * Creates the raw string state of a field with parse and format.
+ * @template T - The type of value stored in the field.
+ * @param props - Props containing parse and format.
+ * @returns validate to wrap the validation of the control, so parse errors fail it, and bind to create the TransformApi once the control exists.
+ */
+export function createTransform<T>(props: TransformProps<T>) {
+	const [parseError, setParseError] = createSignal("");
+	const [editing, setEditing] = createSignal<string>();
+
+	const validate =
+		(validate?: Validate<T>): Validate<T> =>
+		(value, context) =>
+			parseError() || (validate?.(value, context) ?? "");
+
+	const bind = (control: Control<T>): TransformApi & { onBlur: () => void } => {
+		const format = (value: T) =>
+			props.format
+				? props.format(value)
+				: value === undefined || value === null
+					? ""
+					: String(value);
+
+		// Value set by the last setRaw. Any other change drops the edited text.
+		let parsed: { value: T } | undefined;
+		createEffect(
+			on(
+				control.value,
+				(value) => {
+					if (!parsed || !Object.is(parsed.value, value)) {
+						setEditing(undefined);
+						setParseError("");
+					}
+					parsed = undefined;
+				},
+				{ defer: true },
+			),
+		);
+
+		const raw = () => editing() ?? format(control.value());
+
+		const setRaw = (raw: string) => {
+			setEditing(raw);
+			const prev = control.value();
+			try {
+				const value = props.parse ? props.parse(raw) : (raw as T);
+				setParseError("");
+				parsed = { value };
+				control.setValue(() => value);
+			} catch (e) {
+				setParseError(e instanceof Error ? e.message : String(e));
+			}
+			// Validation follows value changes, so report changes of the parse error alone.
+			if (Object.is(prev, control.value())) control.notifyChange();
+		};
+
+		// Shows the formatted value once the user leaves a valid input.
+		const onBlur = () => {
+			if (!parseError()) setEditing(undefined);
+			control.onBlur();
+		};
+
+		return { raw, setRaw, parseError, onBlur };
+	};
+
+	return { validate, bind };
+}
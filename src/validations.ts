@@ -1,4 +1,4 @@
-import type { Validate } from "./control";
+import { type Validate, toIssues } from "./control";
 
 /**
  * Validation function to check if value is undefined, null, or blank.
@@ -10,8 +10,8 @@ export function required<T>(
 	msg = "required",
 	chain?: Validate<T>,
 ): Validate<T> {
-	return (v) =>
-		v === undefined || v === null || v === "" ? msg : chain?.(v) ?? "";
+	return (v, context) =>
+		v === undefined || v === null || v === "" ? msg : chain?.(v, context) ?? "";
 }
 
 /**
@@ -27,7 +27,7 @@ export function custom<T>(
 	msg: string,
 	chain?: Validate<T>,
 ): Validate<T> {
-	return (v: T) => (fn(v) ? msg : chain?.(v) ?? "");
+	return (v: T, context) => (fn(v) ? msg : chain?.(v, context) ?? "");
 }
 
 /**
@@ -42,7 +42,7 @@ export function minLength<T>(
 	msg: string,
 	chain?: Validate<string | T[]>,
 ): Validate<string | T[]> {
-	return (v) => (v.length < length ? msg : chain?.(v) ?? "");
+	return (v, context) => (v.length < length ? msg : chain?.(v, context) ?? "");
 }
 
 /**
@@ -57,7 +57,7 @@ export function maxLength<T>(
 	msg: string,
 	chain?: Validate<string | T[]>,
 ): Validate<string | T[]> {
-	return (v) => (v.length > length ? msg : chain?.(v) ?? "");
+	return (v, context) => (v.length > length ? msg : chain?.(v, context) ?? "");
 }
 
 /**
@@ -72,7 +72,7 @@ export function max(
 	msg: string,
 	chain?: Validate<number | Date>,
 ): Validate<number | Date> {
-	return (v) => (v > max ? msg : chain?.(v) ?? "");
+	return (v, context) => (v > max ? msg : chain?.(v, context) ?? "");
 }
 
 /**
@@ -87,7 +87,7 @@ export function min(
 	msg: string,
 	chain?: Validate<number | Date>,
 ): Validate<number | Date> {
-	return (v) => (v < min ? msg : chain?.(v) ?? "");
+	return (v, context) => (v < min ? msg : chain?.(v, context) ?? "");
 }
 
 /**
@@ -102,7 +102,7 @@ export function pattern(
 	msg: string,
 	chain?: Validate<string>,
 ): Validate<string> {
-	return (v) => (pattern.test(v) ? "" : chain?.(v) ?? msg);
+	return (v, context) => (pattern.test(v) ? "" : chain?.(v, context) ?? msg);
 }
 
 /**
@@ -117,5 +117,30 @@ export function equals<T>(
 	msg: string,
 	chain?: Validate<T>,
 ): Validate<T> {
-	return (v) => (v === value ? "" : chain?.(v) ?? msg);
+	return (v, context) => (v === value ? "" : chain?.(v, context) ?? msg);
+}
+
+/**
+ * Validation function running all validations and returning every issue instead of stopping at the first failure.
+ * @param validations - Validation functions to run.
+ * @returns A validation function returning the issues of all validations.
+ */
+export function all<T>(...validations: Validate<T>[]): Validate<T> {
+	return async (v, context) =>
+		(
+			await Promise.all(validations.map((validate) => validate(v, context)))
+		).flatMap(toIssues);
+}
+
+/**
+ * Validation function turning the issues of another validation into warnings that never make the field invalid.
+ * @param validate - Validation function to run.
+ * @returns A validation function returning warnings.
+ */
+export function warning<T>(validate: Validate<T>): Validate<T> {
+	return async (v, context) =>
+		toIssues(await validate(v, context)).map((issue) => ({
+			...issue,
+			severity: "warning" as const,
+		}));
 }
@@ -1,4 +1,31 @@
-import { createRoot, createSignal } from "solid-js";
+import { Show, batch, createRoot, createSignal } from "solid-js";
+import {
+	ErrorMessage,
+	ErrorSummary,
+	FormDevtools,
+	type StandardSchemaV1,
+	type ValidationMethod,
+	all,
+	createArrayField,
+	createArrayMethods,
+	createField,
+	createForm,
+	getErrorList,
+	getCheckboxProps,
+	getDateProps,
+	getErrorMap,
+	fromFormData,
+	fromSearchParams,
+	getInputProps,
+	getNumberProps,
+	memoryStorage,
+	minLength,
+	setErrors,
+	toFormData,
+	toSearchParams,
+	required,
+	warning,
+} from "../src";
 import { isServer } from "solid-js/web";
 import { describe, expect, it } from "vitest";
 
@@ -48,3 +75,1100 @@ describe("environment", () => {
 //       })
 //     }))
 // })
+
+describe("schema", () => {
+	it("sends issues to nested fields by path", async () => {
+		const { form, name, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { name: { first: "" }, age: 1 },
+				schema: (v) =>
+					v.name.first
+						? []
+						: [{ path: ["name", "first"], message: "required" }],
+			});
+			const name = createField({ control: form.control, name: "name" });
+			const first = createField({ control: name.control, name: "first" });
+			return { form, name: first, dispose };
+		});
+		expect(await form.validate()).toBe(false);
+		expect(name.error()).toBe("required");
+		expect(name.isInvalid()).toBe(true);
+		expect(form.error()).toBe("");
+		name.setValue("Jo");
+		expect(await form.validate()).toBe(true);
+		expect(name.error()).toBe("");
+		dispose();
+	});
+
+	it("adapts standard schemas", async () => {
+		const schema: StandardSchemaV1<{ age: number }> = {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate: (v) =>
+					(v as { age: number }).age > 0
+						? { value: v as { age: number } }
+						: { issues: [{ message: "too young", path: [{ key: "age" }] }] },
+			},
+		};
+		const { form, age, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { age: 0 }, schema });
+			const age = createField({ control: form.control, name: "age" });
+			return { form, age, dispose };
+		});
+		await form.validate();
+		expect(age.error()).toBe("too young");
+		dispose();
+	});
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("validationMethod", () => {
+	const setup = (validationMethod: ValidationMethod) =>
+		createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { email: "", name: "" },
+				validationMethod,
+			});
+			const email = createField({
+				control: form.control,
+				name: "email",
+				validate: (v) => (v.includes("@") ? "" : "invalid email"),
+			});
+			const name = createField({
+				control: form.control,
+				name: "name",
+				validate: required(),
+			});
+			return { form, email, name, dispose };
+		});
+
+	it("onBlur validates only the blurred field", async () => {
+		const { email, name, dispose } = setup("onBlur");
+		email.setValue("a");
+		await tick();
+		expect(email.isInvalid()).toBe(false);
+		email.onBlur();
+		await tick();
+		expect(email.isInvalid()).toBe(true);
+		expect(name.isValidated()).toBe(false);
+		dispose();
+	});
+
+	it("onChangeAfterBlur validates on change once blurred", async () => {
+		const { email, dispose } = setup("onChangeAfterBlur");
+		email.setValue("a");
+		await tick();
+		expect(email.isValidated()).toBe(false);
+		email.onBlur();
+		await tick();
+		expect(email.isInvalid()).toBe(true);
+		email.setValue("a@b");
+		await tick();
+		expect(email.isValid()).toBe(true);
+		dispose();
+	});
+});
+
+describe("revalidateMethod", () => {
+	it("switches to revalidateMethod while the field has an error", async () => {
+		const { email, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { email: "", name: "" } });
+			const email = createField({
+				control: form.control,
+				name: "email",
+				validationMethod: "onBlur",
+				revalidateMethod: "onChange",
+				validate: (v) => (v.includes("@") ? "" : "invalid email"),
+			});
+			return { email, dispose };
+		});
+		email.setValue("a");
+		await tick();
+		expect(email.isValidated()).toBe(false);
+		email.onBlur();
+		await tick();
+		expect(email.isInvalid()).toBe(true);
+		email.setValue("a@b");
+		await tick();
+		expect(email.isValid()).toBe(true);
+		email.setValue("a");
+		await tick();
+		expect(email.isValidated()).toBe(false);
+		dispose();
+	});
+});
+
+describe("async validation", () => {
+	it("drops results of superseded validations", async () => {
+		const { name, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "" } });
+			const name = createField({
+				control: form.control,
+				name: "name",
+				validationMethod: "onChange",
+				validate: async (v, { signal }) => {
+					await new Promise((resolve) => setTimeout(resolve, v === "slow" ? 20 : 1));
+					expect(signal.aborted).toBe(v === "slow");
+					return v;
+				},
+			});
+			return { name, dispose };
+		});
+		name.setValue("slow");
+		name.setValue("fast");
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(name.error()).toBe("fast");
+		expect(name.isValidating()).toBe(false);
+		dispose();
+	});
+
+	it("debounces validation on change", async () => {
+		let calls = 0;
+		const { name, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "" } });
+			const name = createField({
+				control: form.control,
+				name: "name",
+				validationMethod: "onChange",
+				debounce: 10,
+				validate: () => {
+					calls++;
+					return "";
+				},
+			});
+			return { name, dispose };
+		});
+		name.setValue("a");
+		name.setValue("ab");
+		name.setValue("abc");
+		await new Promise((resolve) => setTimeout(resolve, 30));
+		expect(calls).toBe(1);
+		expect(name.isValid()).toBe(true);
+		dispose();
+	});
+});
+
+describe("isDirty", () => {
+	it("follows content instead of identity", () => {
+		createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { name: { first: "a" }, date: new Date(0) },
+			});
+			const name = createField({ control: form.control, name: "name" });
+			const first = createField({ control: name.control, name: "first" });
+			first.setValue("b");
+			expect(form.isDirty()).toBe(true);
+			expect(name.isDirty()).toBe(true);
+			first.setValue("a");
+			expect(form.isPristine()).toBe(true);
+			expect(name.isPristine()).toBe(true);
+			form.setValue((v) => ({ ...v, date: new Date(0) }));
+			expect(form.isPristine()).toBe(true);
+			dispose();
+		});
+	});
+
+	it("accepts a custom isEqual", () => {
+		createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "a" } });
+			const name = createField({
+				control: form.control,
+				name: "name",
+				isEqual: (a, b) => a.toLowerCase() === b.toLowerCase(),
+			});
+			name.setValue("A");
+			expect(name.isPristine()).toBe(true);
+			dispose();
+		});
+	});
+});
+
+describe("reset", () => {
+	it("re-baselines the initial value", async () => {
+		const { form, name, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "", age: 1 } });
+			const name = createField({
+				control: form.control,
+				name: "name",
+				validate: required(),
+			});
+			return { form, name, dispose };
+		});
+		await form.handleSubmit();
+		expect(name.isInvalid()).toBe(true);
+		name.setValue("saved");
+		form.reset(form.value());
+		expect(form.isPristine()).toBe(true);
+		expect(name.initialValue()).toBe("saved");
+		expect(name.error()).toBe("");
+		expect(form.submitCount()).toBe(0);
+		name.setValue("edited");
+		name.reset();
+		expect(form.value()).toEqual({ name: "saved", age: 1 });
+		dispose();
+	});
+
+	it("does not validate the reset value in onChange mode", async () => {
+		let runs = 0;
+		const { form, name, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { name: "" },
+				validationMethod: "onChange",
+			});
+			const name = createField({
+				control: form.control,
+				name: "name",
+				validate: (v) => {
+					runs++;
+					return v ? "" : "req";
+				},
+			});
+			return { form, name, dispose };
+		});
+		name.setValue("x");
+		await tick();
+		expect(runs).toBe(1);
+		form.reset();
+		await tick();
+		expect(runs).toBe(1);
+		expect(name.error()).toBe("");
+		expect(name.isInvalid()).toBe(false);
+		name.setValue("y");
+		await tick();
+		expect(runs).toBe(2);
+
+		form.reset();
+		await tick();
+		form.reset();
+		name.setValue("z");
+		await tick();
+		expect(runs).toBe(3);
+		batch(() => {
+			form.reset();
+			name.setValue("w");
+		});
+		await tick();
+		expect(runs).toBe(4);
+		dispose();
+	});
+
+	it("keeps dirty values", () => {
+		const { form, name, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "", age: 1 } });
+			const name = createField({ control: form.control, name: "name" });
+			return { form, name, dispose };
+		});
+		name.setValue("typed");
+		form.reset({ name: "server", age: 2 }, { keepDirtyValues: true });
+		expect(form.value()).toEqual({ name: "typed", age: 2 });
+		form.resetField("name");
+		expect(form.value()).toEqual({ name: "server", age: 2 });
+		dispose();
+	});
+});
+
+describe("ArrayField", () => {
+	it("keeps item state with the item when reordered", async () => {
+		const { array, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { items: ["", "ok"] } });
+			const array = createArrayField({ control: form.control, name: "items" });
+			<array.Fields validate={required()}>{() => undefined}</array.Fields>;
+			return { array, dispose };
+		});
+		await array.validate();
+		expect(getErrorMap(array.control)).toEqual({ "": "", "0": "required", "1": "" });
+		const [first, second] = array.keys();
+		array.swap(0, 1);
+		expect(array.keys()).toEqual([second, first]);
+		expect(getErrorMap(array.control)).toEqual({ "": "", "0": "", "1": "required" });
+		array.remove(1);
+		expect(array.keys()).toEqual([second]);
+		expect(getErrorMap(array.control)).toEqual({ "": "", "0": "" });
+		array.prepend("new");
+		expect(array.keys()[1]).toBe(second);
+		expect(array.control.fields().size).toBe(2);
+		dispose();
+	});
+});
+
+describe("ArrayMethods", () => {
+	it("moves, updates and removes items", () => {
+		createRoot((dispose) => {
+			const [value, setValue] = createSignal([{ n: 1 }, { n: 2 }, { n: 3 }]);
+			const methods = createArrayMethods(setValue);
+			methods.move(0, 2);
+			expect(value()).toEqual([{ n: 2 }, { n: 3 }, { n: 1 }]);
+			methods.update(0, { n: 4 });
+			expect(value()[0]).toEqual({ n: 4 });
+			methods.removeMany((item) => item.n > 2);
+			expect(value()).toEqual([{ n: 1 }]);
+			methods.swap(0, 5);
+			expect(value()).toEqual([{ n: 1 }]);
+			methods.batch(() => {
+				methods.replaceAll([{ n: 1 }]);
+				methods.append({ n: 2 });
+			});
+			expect(value()).toEqual([{ n: 1 }, { n: 2 }]);
+			dispose();
+		});
+	});
+
+	it("refuses to go past maxItems", async () => {
+		const { array, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { items: ["a"] } });
+			const array = createArrayField({
+				control: form.control,
+				name: "items",
+				minItems: 1,
+				maxItems: 2,
+			});
+			return { array, dispose };
+		});
+		expect(array.canRemove()).toBe(false);
+		expect(array.remove(0)).toBe(false);
+		expect(array.append("b")).toBe(true);
+		expect(array.canAppend()).toBe(false);
+		expect(array.append("c")).toBe(false);
+		expect(array.value()).toEqual(["a", "b"]);
+		expect(array.error()).toBe("Must have at most 2 items");
+		expect(array.isInvalid()).toBe(true);
+		expect(await array.control.validate()).toBe(true);
+		expect(array.error()).toBe("");
+		dispose();
+	});
+
+	it("leaves the array and history untouched when a method is refused", async () => {
+		const { form, array, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { items: ["a", "b"] },
+				validationMethod: "onChange",
+				history: {},
+			});
+			const array = createArrayField({ control: form.control, name: "items", maxItems: 2 });
+			return { form, array, dispose };
+		});
+		const items = array.value();
+		const keys = array.keys();
+		expect(array.append("c")).toBe(false);
+		array.batch(() => array.append("c"));
+		expect(array.value()).toBe(items);
+		expect(array.keys()).toBe(keys);
+		expect(form.history().past).toHaveLength(0);
+		await tick();
+		expect(array.error()).toBe("Must have at most 2 items");
+		dispose();
+	});
+});
+
+describe("paths", () => {
+	it("reads and writes nested values by path", () => {
+		const { form, dispose } = createRoot((dispose) => ({
+			form: createForm({
+				initialValue: { country: "US", address: { lines: ["a", "b"] } },
+			}),
+			dispose,
+		}));
+		const line = form.watch("address.lines.1");
+		const value: string = form.getValue("address.lines.0");
+		expect(value).toBe("a");
+		form.setValue("address.lines.1", (prev) => `${prev}!`);
+		expect(line()).toBe("b!");
+		form.setValue({ country: "FR", address: { lines: [] } });
+		expect(form.getValue("country")).toBe("FR");
+
+		const field = form.getFieldByPath("address.lines.0");
+		field.setValue("c");
+		expect(form.value().address.lines).toEqual(["c"]);
+		expect(field.isDirty()).toBe(true);
+		dispose();
+	});
+});
+
+describe("setError", () => {
+	it("shows server errors until the next validation or change", async () => {
+		const { form, name, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { user: { name: "taken" } } });
+			const user = createField({ control: form.control, name: "user" });
+			const name = createField({ control: user.control, name: "name" });
+			return { form, name, dispose };
+		});
+		setErrors(form.control, { "user.name": "already taken" });
+		expect(name.error()).toBe("already taken");
+		expect(name.isInvalid()).toBe(true);
+		expect(getErrorMap(form.control)["user.name"]).toBe("already taken");
+		expect(await form.validate()).toBe(true);
+		expect(name.error()).toBe("");
+
+		form.setError("user.name", "already taken", { persistUntilChange: true });
+		expect(await form.validate()).toBe(false);
+		name.setValue("free");
+		expect(name.error()).toBe("");
+
+		form.setError("user.name", "already taken");
+		form.clearErrors(["user"]);
+		expect(form.isInvalid()).toBe(false);
+		dispose();
+	});
+});
+
+describe("issues", () => {
+	it("returns several issues and never blocks on warnings", async () => {
+		const { form, password, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { password: "abc" } });
+			const password = createField({
+				control: form.control,
+				name: "password",
+				validate: all<string>(
+					warning(minLength(8, "weak")),
+					(v) => [
+						{ code: "digit", message: /\d/.test(v) ? "" : "needs a digit" },
+						{ code: "upper", message: /[A-Z]/.test(v) ? "" : "needs upper" },
+					],
+				),
+			});
+			return { form, password, dispose };
+		});
+		await form.validate();
+		expect(password.errors().map((i) => i.code)).toEqual(["digit", "upper"]);
+		expect(password.error()).toBe("needs a digit");
+		expect(password.warnings()).toEqual([{ message: "weak", severity: "warning" }]);
+		password.setValue("Abc1");
+		await form.validate();
+		expect(form.isValid()).toBe(true);
+		expect(form.hasWarnings()).toBe(true);
+		expect(getErrorList(form.control, { issues: true })).toHaveLength(1);
+		expect(getErrorMap(form.control, { issues: true }).password).toHaveLength(1);
+		dispose();
+	});
+});
+
+describe("deps", () => {
+	it("validates again when a dependency changes", async () => {
+		const { password, confirm, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { password: "", confirm: "" },
+				validationMethod: "onBlur",
+			});
+			const password = createField({ control: form.control, name: "password" });
+			const confirm = createField({
+				control: form.control,
+				name: "confirm",
+				deps: ["password"],
+				validate: (v, { parent }) =>
+					v === (parent as { password: string }).password ? "" : "no match",
+			});
+			return { password, confirm, dispose };
+		});
+		password.setValue("secret");
+		await tick();
+		expect(confirm.isValidated()).toBe(false);
+		confirm.setValue("secret");
+		confirm.onBlur();
+		await tick();
+		expect(confirm.isValid()).toBe(true);
+		password.setValue("other");
+		await tick();
+		expect(confirm.isInvalid()).toBe(true);
+		expect(confirm.error()).toBe("no match");
+		dispose();
+	});
+});
+
+describe("touched", () => {
+	it("rolls up touch state and marks all fields touched on invalid submit", async () => {
+		const { form, first, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: { first: "", last: "" } } });
+			const name = createField({ control: form.control, name: "name" });
+			const first = createField({ control: name.control, name: "first" });
+			createField({ control: name.control, name: "last", validate: required() });
+			return { form, first, dispose };
+		});
+		expect(form.isTouched()).toBe(false);
+		first.onBlur();
+		expect(form.isTouched()).toBe(true);
+		expect(form.touchedFields()).toEqual(["name.first"]);
+		await form.handleSubmit();
+		expect(form.touchedFields()).toEqual(["", "name", "name.first", "name.last"]);
+		form.reset();
+		expect(form.isTouched()).toBe(false);
+		dispose();
+	});
+});
+
+describe("input props", () => {
+	it("binds checkbox groups, numbers and dates", () => {
+		createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { tags: ["a"], age: 1 as number | undefined, day: new Date(0) },
+			});
+			const tags = createField({ control: form.control, name: "tags" });
+			const age = createField({ control: form.control, name: "age" });
+			const day = createField({ control: form.control, name: "day" });
+			const checkbox = (<input {...getCheckboxProps(tags, "b")} />) as HTMLInputElement;
+			const number = (<input {...getNumberProps(age)} />) as HTMLInputElement;
+			const date = (<input {...getDateProps(day)} />) as HTMLInputElement;
+			document.body.append(checkbox, number, date);
+
+			expect(checkbox.checked).toBe(false);
+			checkbox.click();
+			expect(tags.value()).toEqual(["a", "b"]);
+
+			expect(number.value).toBe("1");
+			number.value = "";
+			number.dispatchEvent(new InputEvent("input", { bubbles: true }));
+			expect(age.value()).toBeUndefined();
+
+			expect(date.value).toBe("1970-01-01");
+			date.value = "2024-02-03";
+			date.dispatchEvent(new InputEvent("input", { bubbles: true }));
+			expect(day.value()).toEqual(new Date("2024-02-03T00:00:00Z"));
+			document.body.replaceChildren();
+			dispose();
+		});
+	});
+});
+
+describe("parse and format", () => {
+	it("keeps the raw text and reports parse errors", async () => {
+		const { form, price, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { price: 1 } });
+			const price = createField({
+				control: form.control,
+				name: "price",
+				parse: (raw) => {
+					const price = Number.parseFloat(raw);
+					if (Number.isNaN(price)) throw new Error("Not a number");
+					return price;
+				},
+				format: (price) => price.toFixed(2),
+			});
+			return { form, price, dispose };
+		});
+		expect(price.raw()).toBe("1.00");
+		price.setRaw("2.5");
+		expect(price.value()).toBe(2.5);
+		expect(price.raw()).toBe("2.5");
+		price.onBlur();
+		expect(price.raw()).toBe("2.50");
+		price.setRaw("abc");
+		expect(price.value()).toBe(2.5);
+		expect(price.raw()).toBe("abc");
+		expect(price.parseError()).toBe("Not a number");
+		expect(await form.validate()).toBe(false);
+		expect(price.error()).toBe("Not a number");
+		form.setValue("price", 3);
+		await form.validate();
+		expect(price.raw()).toBe("3.00");
+		expect(price.isValid()).toBe(true);
+		dispose();
+	});
+});
+
+describe("persist", () => {
+	it("restores drafts without changing initialValue and clears them", async () => {
+		const storage = memoryStorage();
+		const persist = {
+			key: "claim",
+			storage,
+			exclude: ["password" as const],
+			debounce: 0,
+		};
+		const initialValue = { name: "", password: "" };
+		const first = createRoot((dispose) => ({
+			form: createForm({ initialValue, persist }),
+			dispose,
+		}));
+		first.form.setValue({ name: "Ada", password: "secret" });
+		await tick();
+		expect(JSON.parse(storage.getItem("claim") as string)).toEqual({
+			version: 0,
+			value: { name: "Ada" },
+		});
+		first.dispose();
+
+		const { form, dispose } = createRoot((dispose) => ({
+			form: createForm({ initialValue, persist }),
+			dispose,
+		}));
+		expect(form.value()).toEqual({ name: "Ada", password: "" });
+		expect(form.initialValue()).toEqual(initialValue);
+		expect(form.isDirty()).toBe(true);
+		await form.clearDraft();
+		expect(storage.getItem("claim")).toBeNull();
+		dispose();
+	});
+
+	it("migrates drafts of older versions", () => {
+		const storage = memoryStorage();
+		storage.setItem("claim", JSON.stringify({ version: 1, value: { fullName: "Ada" } }));
+		const { form, dispose } = createRoot((dispose) => ({
+			form: createForm({
+				initialValue: { name: "" },
+				persist: {
+					key: "claim",
+					storage,
+					version: 2,
+					migrate: (draft) => ({ name: (draft as { fullName: string }).fullName }),
+				},
+			}),
+			dispose,
+		}));
+		expect(form.value()).toEqual({ name: "Ada" });
+		dispose();
+	});
+
+	it("restores only the included paths of drafts", () => {
+		const storage = memoryStorage();
+		storage.setItem("claim", JSON.stringify({ version: 0, value: { name: "Ada" } }));
+		const { form, dispose } = createRoot((dispose) => ({
+			form: createForm({
+				initialValue: { name: "", other: "" },
+				persist: { key: "claim", storage, include: ["name"] },
+			}),
+			dispose,
+		}));
+		expect(form.value()).toEqual({ name: "Ada", other: "" });
+		dispose();
+	});
+
+	it("starts the history at a draft restored from an async storage", async () => {
+		const storage = memoryStorage();
+		storage.setItem("claim", JSON.stringify({ version: 0, value: { name: "Ada" } }));
+		const { form, dispose } = createRoot((dispose) => ({
+			form: createForm({
+				initialValue: { name: "" },
+				history: {},
+				persist: {
+					key: "claim",
+					storage: { ...storage, getItem: async (key) => storage.getItem(key) },
+				},
+			}),
+			dispose,
+		}));
+		await tick();
+		expect(form.value()).toEqual({ name: "Ada" });
+		expect(form.canUndo()).toBe(false);
+		dispose();
+	});
+
+	it("restores dates and ignores storage failures", async () => {
+		const storage = memoryStorage();
+		const persist = { key: "trip", storage, debounce: 0 };
+		const initialValue = { name: "", start: new Date(0) };
+		const start = new Date("2024-02-03T00:00:00Z");
+		storage.setItem("trip", JSON.stringify({ version: 0, value: { name: "Ada", start } }));
+		const restored = createRoot((dispose) => ({
+			form: createForm({ initialValue, persist }),
+			dispose,
+		}));
+		expect(restored.form.value()).toEqual({ name: "Ada", start });
+		restored.dispose();
+
+		const failing = {
+			getItem: () => {
+				throw new Error("denied");
+			},
+			setItem: () => Promise.reject(new Error("quota")),
+			removeItem: () => {
+				throw new Error("denied");
+			},
+		};
+		const { form, dispose } = createRoot((dispose) => ({
+			form: createForm({ initialValue, persist: { ...persist, storage: failing } }),
+			dispose,
+		}));
+		expect(form.value()).toEqual(initialValue);
+		form.setValue("name", "Ada");
+		await tick();
+		form.setValue("name", "");
+		await tick();
+		expect(form.value().name).toBe("");
+		dispose();
+	});
+});
+
+describe("history", () => {
+	it("undoes coalesced typing, transactions and array methods as steps", () => {
+		const { form, tags, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { first: "", last: "", tags: [] as string[] },
+				history: { maxDepth: 10 },
+			});
+			const tags = createArrayField({ control: form.control, name: "tags" });
+			return { form, tags, dispose };
+		});
+		expect(form.canUndo()).toBe(false);
+		form.setValue("first", "A");
+		form.setValue("first", "Ad");
+		form.setValue("first", "Ada");
+		form.transaction(() => {
+			form.setValue("first", "Grace");
+			form.setValue("last", "Hopper");
+		});
+		tags.append("a");
+		expect(form.history().past).toHaveLength(3);
+
+		form.undo();
+		expect(form.value().tags).toEqual([]);
+		form.undo();
+		expect(form.value()).toMatchObject({ first: "Ada", last: "" });
+		form.undo();
+		expect(form.value().first).toBe("");
+		expect(form.canUndo()).toBe(false);
+		expect(form.redo()).toBe(true);
+		expect(form.value().first).toBe("Ada");
+		form.setValue("last", "Lovelace");
+		expect(form.canRedo()).toBe(false);
+		dispose();
+	});
+
+	it("coalesces only changes of the same path and restores item keys", () => {
+		const { form, tags, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { first: "", last: "", tags: ["a", "b"] },
+				history: {},
+			});
+			const tags = createArrayField({ control: form.control, name: "tags" });
+			return { form, tags, dispose };
+		});
+		form.setValue("first", "Ada");
+		form.setValue("last", "Lovelace");
+		form.undo();
+		expect(form.value()).toMatchObject({ first: "Ada", last: "" });
+
+		const keys = tags.keys();
+		tags.remove(0);
+		form.undo();
+		expect(tags.keys()).toEqual(keys);
+		form.redo();
+		expect(tags.keys()).toEqual([keys[1]]);
+		dispose();
+	});
+});
+
+describe("devtools", () => {
+	it("shows the control tree and logs changes and validations", async () => {
+		const { form, panel, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "" } });
+			createField({ control: form.control, name: "name", validate: required() });
+			const panel = (<FormDevtools control={form.control} />) as HTMLElement;
+			return { form, panel, dispose };
+		});
+		document.body.append(panel);
+		await tick();
+		expect(panel.textContent).toContain("name");
+		form.setValue("name", "Ada");
+		const validate = [...panel.querySelectorAll("button")].find(
+			(button) => button.textContent === "Validate",
+		);
+		validate?.click();
+		await tick();
+		const timeline = [...panel.querySelectorAll("li")].map((li) => li.textContent);
+		expect(timeline.some((entry) => entry?.includes('change (form): {"name":"Ada"}'))).toBe(true);
+		expect(timeline.some((entry) => entry?.includes("validation name: valid"))).toBe(true);
+		document.body.replaceChildren();
+		dispose();
+	});
+});
+
+describe("form element", () => {
+	it("submits through handleSubmit and calls the action with FormData", async () => {
+		const initialValue = { name: "", home: { city: "" }, work: { city: "" } };
+		const received: (typeof initialValue)[] = [];
+		const action = Object.assign(
+			(formData: FormData) => {
+				received.push(fromFormData(formData, initialValue));
+				return "saved";
+			},
+			{ url: "/claims" },
+		);
+		const { form, element, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue });
+			const name = createField({ control: form.control, name: "name", validate: required() });
+			const home = createField({ control: form.control, name: "home" });
+			const work = createField({ control: form.control, name: "work" });
+			const homeCity = createField({ control: home.control, name: "city" });
+			const workCity = createField({ control: work.control, name: "city" });
+			const element = (
+				<form {...form.props({ action })}>
+					<input {...getInputProps(name)} />
+					<input {...getInputProps(homeCity)} />
+					<input {...getInputProps(workCity)} />
+				</form>
+			) as HTMLFormElement;
+			return { form, element, dispose };
+		});
+		document.body.append(element);
+		expect(element.getAttribute("action")).toBe("/claims");
+		expect(element.getAttribute("method")).toBe("post");
+
+		element.requestSubmit();
+		await tick();
+		expect(received).toEqual([]);
+		expect(form.isInvalid()).toBe(true);
+
+		expect([...new FormData(element).keys()]).toEqual(["name", "home.city", "work.city"]);
+		form.setValue({ name: "Ada", home: { city: "A" }, work: { city: "B" } });
+		element.requestSubmit();
+		await tick();
+		expect(received).toEqual([{ name: "Ada", home: { city: "A" }, work: { city: "B" } }]);
+		expect(form.response()).toBe("saved");
+		document.body.replaceChildren();
+		dispose();
+	});
+});
+
+describe("serialize", () => {
+	const shape = {
+		name: "",
+		age: 0,
+		active: false,
+		since: new Date(0),
+		address: { lines: [""] },
+		tags: [] as string[],
+	};
+	const value = {
+		name: "Ada",
+		age: 36,
+		active: true,
+		since: new Date("2024-02-03T00:00:00Z"),
+		address: { lines: ["1 Main St", "Apt 2"] },
+		tags: ["a", "b"],
+	};
+
+	it("round trips FormData with nested names and coerced types", () => {
+		const formData = toFormData(value);
+		expect(formData.get("address.lines[1]")).toBe("Apt 2");
+		expect(formData.get("since")).toBe("2024-02-03T00:00:00.000Z");
+		expect(fromFormData(formData, shape)).toEqual(value);
+		expect([...toFormData(value, { style: "bracket" }).keys()]).toContain("address[lines][0]");
+	});
+
+	it("round trips URLSearchParams and reads repeated names as arrays", () => {
+		const params = toSearchParams(value, { style: "dot" });
+		expect(params.get("address.lines.0")).toBe("1 Main St");
+		expect(fromSearchParams(params, shape)).toEqual(value);
+		expect(fromSearchParams(new URLSearchParams("tags=x&tags=y&age=5"), shape)).toEqual({
+			...shape,
+			address: { lines: [] },
+			tags: ["x", "y"],
+			age: 5,
+		});
+	});
+
+	it("reads missing arrays as empty and missing booleans as false", () => {
+		const empty = { ...value, active: false, tags: [] };
+		expect(fromFormData(toFormData(empty), { ...shape, tags: ["a"] })).toEqual(empty);
+		expect(fromSearchParams(toSearchParams(empty), { ...shape, active: true })).toEqual(empty);
+	});
+});
+
+describe("native validation", () => {
+	it("validates native constraints and sets custom validity", async () => {
+		const { form, email, input, dispose } = createRoot((dispose) => {
+			const form = createForm({
+				initialValue: { email: "" },
+				nativeValidation: { valueMissing: "Required" },
+			});
+			const email = createField({ control: form.control, name: "email" });
+			const input = (
+				<input type="email" required {...getInputProps(email)} />
+			) as HTMLInputElement;
+			return { form, email, input, dispose };
+		});
+		document.body.append(input);
+		expect(await form.validate()).toBe(false);
+		expect(email.error()).toBe("Required");
+		expect(input.validationMessage).toBe("Required");
+
+		email.setRaw("ada");
+		await form.validate();
+		expect(email.issues()[0]?.code).toBe("typeMismatch");
+
+		email.setRaw("ada@example.com");
+		expect(await form.validate()).toBe(true);
+		expect(input.validity.valid).toBe(true);
+		document.body.replaceChildren();
+		dispose();
+	});
+});
+
+describe("accessibility", () => {
+	it("links inputs to their errors and focuses them from the summary", async () => {
+		const { form, name, element, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { name: "" } });
+			const name = createField({ control: form.control, name: "name", validate: required("Required") });
+			const element = (
+				<div>
+					<ErrorSummary control={form.control} title={<h2>Fix these errors</h2>} />
+					<input {...getInputProps(name)} />
+					<ErrorMessage control={name.control} />
+				</div>
+			) as HTMLDivElement;
+			return { form, name, element, dispose };
+		});
+		document.body.append(element);
+		const input = element.querySelector("input") as HTMLInputElement;
+		expect(input.id).toBe(name.id);
+		expect(input.getAttribute("aria-invalid")).toBe("false");
+		expect(input.hasAttribute("aria-describedby")).toBe(false);
+
+		await form.validate();
+		expect(input.getAttribute("aria-invalid")).toBe("true");
+		expect(input.getAttribute("aria-describedby")).toBe(name.errorId);
+		expect(document.getElementById(name.errorId)?.textContent).toBe("Required");
+
+		const link = element.querySelector("[aria-live] a") as HTMLAnchorElement;
+		expect(link.textContent).toBe("Required");
+		expect(link.getAttribute("href")).toBe(`#${name.id}`);
+		link.click();
+		expect(document.activeElement).toBe(input);
+		document.body.replaceChildren();
+		dispose();
+	});
+});
+
+describe("focusError", () => {
+	it("focuses the first error in document order and falls back to ancestor refs", async () => {
+		const { form, element, dispose } = createRoot((dispose) => {
+			const form = createForm({ initialValue: { first: "", last: "", terms: false } });
+			// Mounted in reverse of their document order.
+			const last = createField({ control: form.control, name: "last", validate: required() });
+			const first = createField({ control: form.control, name: "first", validate: required() });
+			const element = (
+				<fieldset ref={form.ref} tabIndex={-1}>
+					<input {...getInputProps(first)} />
+					<input {...getInputProps(last)} />
+				</fieldset>
+			) as HTMLFieldSetElement;
+			return { form, element, dispose };
+		});
+		document.body.append(element);
+		const [firstInput] = element.querySelectorAll("input");
+		await form.handleSubmit(undefined, undefined, { preventScroll: true });
+		expect(document.activeElement).toBe(firstInput);
+
+		form.setValue({ first: "Ada", last: "Lovelace", terms: false });
+		form.setError("terms", "Accept the terms");
+		expect(form.control.focusError()).toBe(true);
+		expect(document.activeElement).toBe(element);
+		document.body.replaceChildren();
+		dispose();
+	});
+});
+
+describe("unregister", () => {
+	it("removes the value of hidden fields and restores their state on mount", async () => {
+		const { form, setShow, dispose } = createRoot((dispose) => {
+			const [show, setShow] = createSignal(true);
+			const form = createForm({
+				initialValue: { insured: "", spouse: "" },
+				shouldUnregister: true,
+				keepState: true,
+			});
+			<Show when={show()}>
+				<form.Field name="spouse" validate={required("Required")}>
+					{(field) => <input {...getInputProps(field)} />}
+				</form.Field>
+			</Show>;
+			return { form, setShow, dispose };
+		});
+		await tick();
+		expect(await form.validate()).toBe(false);
+		form.control.getField("spouse").onBlur();
+
+		setShow(false);
+		expect(form.value()).toEqual({ insured: "" });
+		expect(await form.validate()).toBe(true);
+
+		setShow(true);
+		await tick();
+		const spouse = form.control.getField("spouse");
+		expect(spouse.error()).toBe("Required");
+		expect(spouse.isTouched()).toBe(true);
+		dispose();
+	});
+
+	it("writes back the initial value of a field shown again", async () => {
+		const { form, setShow, dispose } = createRoot((dispose) => {
+			const [show, setShow] = createSignal(true);
+			const form = createForm({
+				initialValue: { a: "", s: "init" },
+				shouldUnregister: true,
+			});
+			<Show when={show()}>
+				<form.Field name="s">{(field) => <input {...getInputProps(field)} />}</form.Field>
+			</Show>;
+			return { form, setShow, dispose };
+		});
+		await tick();
+		setShow(false);
+		expect(form.value()).toEqual({ a: "" });
+		setShow(true);
+		await tick();
+		expect(form.value()).toEqual({ a: "", s: "init" });
+		expect(form.isDirty()).toBe(false);
+		expect(form.control.getField("s").isDirty()).toBe(false);
+		dispose();
+	});
+
+	it("keeps a cleared value of a field shown again by default", async () => {
+		const { form, setShow, dispose } = createRoot((dispose) => {
+			const [show, setShow] = createSignal(true);
+			const form = createForm({ initialValue: { age: 5 as number | undefined } });
+			<Show when={show()}>
+				<form.Field name="age">{(field) => <input {...getNumberProps(field)} />}</form.Field>
+			</Show>;
+			return { form, setShow, dispose };
+		});
+		await tick();
+		form.setValue("age", undefined);
+		setShow(false);
+		setShow(true);
+		await tick();
+		expect(form.value()).toEqual({ age: undefined });
+		dispose();
+	});
+});
+
+describe("disabled", () => {
+	it("skips disabled fields in validation and the submitted value", async () => {
+		const { form, spouse, setDisabled, input, dispose } = createRoot((dispose) => {
+			const [disabled, setDisabled] = createSignal(true);
+			const form = createForm({
+				initialValue: { name: "Ada", spouse: { name: "" } },
+				excludeDisabled: true,
+				readOnly: true,
+			});
+			const group = createField({
+				control: form.control,
+				name: "spouse",
+				get disabled() {
+					return disabled();
+				},
+			});
+			const spouse = createField({ control: group.control, name: "name", validate: required() });
+			const input = (<input {...getInputProps(spouse)} />) as HTMLInputElement;
+			return { form, spouse, setDisabled, input, dispose };
+		});
+		expect(spouse.isDisabled()).toBe(true);
+		expect(input.disabled).toBe(true);
+		expect(input.readOnly).toBe(true);
+
+		let submitted: unknown;
+		await form.handleSubmit((value) => {
+			expect(form.isDisabled()).toBe(true);
+			submitted = value;
+		});
+		expect(submitted).toEqual({ name: "Ada" });
+		expect(form.isDisabled()).toBe(false);
+
+		setDisabled(false);
+		expect(input.disabled).toBe(false);
+		expect(await form.validate()).toBe(false);
+		expect(spouse.isInvalid()).toBe(true);
+		dispose();
+	});
+});
@@ -1,5 +1,7 @@
+import { createRoot } from "solid-js";
 import { describe, expect, it } from "vitest";
 import { isServer, renderToString } from "solid-js/web";
+import { createField, createForm, getInputProps } from "../src";
 
 describe("environment", () => {
 	it("runs on server", () => {
@@ -8,6 +10,42 @@ describe("environment", () => {
 	});
 });
 
+describe("createForm", () => {
+	it("creates a form outside a render", () => {
+		const form = createRoot((dispose) => {
+			const form = createForm({ initialValue: { a: "" } });
+			dispose();
+			return form;
+		});
+		expect(form.id).toMatch(/^sxf-/);
+	});
+});
+
+describe("form element", () => {
+	it("renders the action and method for submission before hydration", () => {
+		const html = renderToString(() => {
+			const form = createForm({ initialValue: { name: "" } });
+			return <form {...form.props({ action: "/claims" })} />;
+		});
+		expect(html).toContain('method="post"');
+		expect(html).toContain('action="/claims"');
+	});
+
+	it("names nested inputs by their full path", () => {
+		const html = renderToString(() => {
+			const form = createForm({ initialValue: { home: { city: "" } } });
+			const home = createField({ control: form.control, name: "home" });
+			const city = createField({ control: home.control, name: "city" });
+			return (
+				<form {...form.props({ action: "/claims" })}>
+					<input {...getInputProps(city)} />
+				</form>
+			);
+		});
+		expect(html).toContain('name="home.city"');
+	});
+});
+
 // describe('createHello', () => {
 //   it('Returns a Hello World signal', () => {
 //     const [hello] = createHello()